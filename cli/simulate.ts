@@ -0,0 +1,274 @@
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { GameMode, Replay } from '../src/scripts/types';
+import { defaultConfig, mochiTiers } from '../src/scripts/physics';
+import { createSeededRandom, getSeedFromDate } from '../src/scripts/daily';
+import { parseReplay } from '../src/scripts/replay';
+import { TICK_DT } from '../src/scripts/physics-types';
+import { BOARD, createSimulation, dropMochi, stepSimulation, simulateReplay, type Simulation } from '../src/scripts/simulation';
+
+// Headless game runner for balance testing and CI regression checks.
+//
+//   pnpm simulate --seed 42 --drops 160,80,240,160
+//   pnpm simulate --date 2026-01-27 --strategy match --runs 20
+//   pnpm simulate --replay my-run.json --expect-score 1234
+//   pnpm simulate --mode zen --strategy center --max-drops 300
+//
+// Drops happen as soon as the cooldown allows. After the last listed drop the
+// board keeps running until it settles or the game ends.
+
+const USAGE = `Usage: pnpm simulate [options]
+  --seed <n>            Game seed (default 1)
+  --date <YYYY-MM-DD>   Use that day's daily challenge seed
+  --drops <x,x,...>     Board-space drop positions, in order
+  --strategy <name>     Pick drops automatically: random | center | sweep | match
+  --max-drops <n>       Stop a strategy after this many drops (default 500)
+  --mode <name>         Rules to play by: practice | rush | zen (default practice)
+  --runs <n>            Play consecutive seeds and print a summary (strategies only)
+  --replay <file>       Re-simulate a replay file instead
+  --expect-score <n>    Exit with status 1 unless the score matches (one run only)
+  --json                Print results as JSON`;
+
+const OPTIONS = {
+  seed: { type: 'string' },
+  date: { type: 'string' },
+  drops: { type: 'string' },
+  strategy: { type: 'string' },
+  'max-drops': { type: 'string' },
+  mode: { type: 'string' },
+  runs: { type: 'string' },
+  replay: { type: 'string' },
+  'expect-score': { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+const SETTLE_TICKS = 600; // Ticks to keep running after the last drop (~5 seconds)
+const MAX_TICKS = 120 * 60 * 60; // Give up after an hour of game time
+
+type Strategy = (sim: Simulation, random: () => number) => number;
+
+const minX = BOARD.x + BOARD.wallThickness;
+const maxX = BOARD.x + BOARD.width - BOARD.wallThickness;
+
+const STRATEGIES: Record<string, Strategy> = {
+  // Anywhere across the board
+  random: (_sim, random) => minX + random() * (maxX - minX),
+
+  // Always the middle
+  center: () => (minX + maxX) / 2,
+
+  // Walk across the board and back
+  sweep: (sim) => {
+    const steps = 8;
+    const phase = sim.mergeCount + Math.floor(sim.tick / 100);
+    const i = phase % (steps * 2);
+    const t = (i < steps ? i : steps * 2 - i) / steps;
+    return minX + 20 + t * (maxX - minX - 40);
+  },
+
+  // Above the highest mochi of the same tier, otherwise above the lowest pile
+  match: (sim) => {
+    const candidates = sim.mochis.filter(m => m.tier === sim.currentTier && !m.merging);
+    if (candidates.length > 0) {
+      return candidates.reduce((a, b) => (a.cy < b.cy ? a : b)).cx;
+    }
+    const columns = 6;
+    const width = (maxX - minX) / columns;
+    let best = minX + width / 2;
+    let bestTop = -Infinity;
+    for (let c = 0; c < columns; c++) {
+      const x = minX + width * (c + 0.5);
+      const top = Math.min(BOARD.height, ...sim.mochis.filter(m => Math.abs(m.cx - x) < width).map(m => m.cy - m.baseRadius));
+      if (top > bestTop) {
+        bestTop = top;
+        best = x;
+      }
+    }
+    return best;
+  },
+};
+
+interface RunResult {
+  seed: number;
+  score: number;
+  merges: number;
+  bestCombo: number;
+  highestTier: number;
+  highestTierName: string;
+  drops: number;
+  ticks: number;
+  seconds: number;
+  gameOver: boolean;
+}
+
+function summarize(seed: number, sim: Simulation, drops: number): RunResult {
+  return {
+    seed,
+    score: sim.score,
+    merges: sim.mergeCount,
+    bestCombo: sim.bestCombo,
+    highestTier: sim.highestTier,
+    highestTierName: mochiTiers[sim.highestTier].name,
+    drops,
+    ticks: sim.tick,
+    seconds: Math.round((sim.tick * TICK_DT) / 60),
+    gameOver: sim.gameOver,
+  };
+}
+
+// Play one game, asking `nextDrop` for each position until it returns null
+function play(seed: number, mode: GameMode, nextDrop: (sim: Simulation) => number | null): RunResult {
+  const sim = createSimulation(seed, defaultConfig, mode);
+  let drops = 0;
+  let settleUntil = Infinity;
+
+  while (!sim.gameOver && sim.tick < MAX_TICKS && sim.tick < settleUntil) {
+    if (sim.canDrop && settleUntil === Infinity) {
+      const x = nextDrop(sim);
+      if (x === null) {
+        settleUntil = sim.tick + SETTLE_TICKS;
+      } else if (dropMochi(sim, x)) {
+        drops++;
+      }
+    }
+    stepSimulation(sim);
+  }
+
+  return summarize(seed, sim, drops);
+}
+
+// A whole number from the command line (no sign, exponent or fraction), or
+// null when the text isn't one
+function parseWholeNumber(text: string): number | null {
+  return /^\d+$/.test(text) && Number.isSafeInteger(Number(text)) ? Number(text) : null;
+}
+
+// A real calendar date, as YYYY-MM-DD
+function isValidDate(text: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(text) && new Date(`${text}T00:00:00Z`).toISOString().startsWith(text);
+}
+
+function printResult(result: RunResult): void {
+  console.log(`seed ${result.seed}`);
+  console.log(`  score         ${result.score}`);
+  console.log(`  merges        ${result.merges}`);
+  console.log(`  best combo    x${result.bestCombo}`);
+  console.log(`  highest tier  ${result.highestTier} (${result.highestTierName})`);
+  console.log(`  drops         ${result.drops}`);
+  console.log(`  game time     ${result.seconds}s (${result.ticks} ticks)${result.gameOver ? ', game over' : ''}`);
+}
+
+function main(): number {
+  let values;
+  try {
+    ({ values } = parseArgs({ options: OPTIONS }));
+  } catch (e) {
+    console.error(`${(e as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (values.date !== undefined && !isValidDate(values.date)) {
+    console.error(`Invalid date: ${values.date}\n\n${USAGE}`);
+    return 2;
+  }
+  const seed = values.date !== undefined ? getSeedFromDate(values.date) : parseWholeNumber(values.seed ?? '1');
+  if (seed === null) {
+    console.error(`Invalid seed: ${values.seed}\n\n${USAGE}`);
+    return 2;
+  }
+
+  // Counts must be at least 1
+  const counts: Record<'max-drops' | 'runs', number> = { 'max-drops': 500, runs: 1 };
+  for (const option of ['max-drops', 'runs'] as const) {
+    const text = values[option];
+    if (text === undefined) continue;
+    const count = parseWholeNumber(text);
+    if (count === null || count < 1) {
+      console.error(`Invalid --${option}: ${text}\n\n${USAGE}`);
+      return 2;
+    }
+    counts[option] = count;
+  }
+
+  const expectedScore = values['expect-score'] === undefined ? null : parseWholeNumber(values['expect-score']);
+  if (values['expect-score'] !== undefined && expectedScore === null) {
+    console.error(`Invalid --expect-score: ${values['expect-score']}\n\n${USAGE}`);
+    return 2;
+  }
+  if (expectedScore !== null && counts.runs > 1) {
+    console.error(`--expect-score checks a single run; leave out --runs\n\n${USAGE}`);
+    return 2;
+  }
+
+  const mode = (values.mode ?? 'practice') as GameMode;
+  if (mode !== 'practice' && mode !== 'rush' && mode !== 'zen') {
+    console.error(`Unknown mode: ${values.mode}\n\n${USAGE}`);
+    return 2;
+  }
+
+  let results: RunResult[];
+
+  if (values.replay) {
+    const replay: Replay | null = parseReplay(readFileSync(values.replay, 'utf8'));
+    if (!replay) {
+      console.error(`Not a playable replay: ${values.replay}`);
+      return 2;
+    }
+    results = [summarize(replay.seed, simulateReplay(replay), replay.drops.length)];
+  } else if (values.drops !== undefined) {
+    const positions = values.drops.split(',').filter(Boolean).map(Number);
+    if (positions.some(x => !Number.isFinite(x))) {
+      console.error(`Invalid drop list: ${values.drops}`);
+      return 2;
+    }
+    let next = 0;
+    results = [play(seed, mode, () => (next < positions.length ? positions[next++] : null))];
+  } else if (values.strategy) {
+    const strategy = STRATEGIES[values.strategy];
+    if (!strategy) {
+      console.error(`Unknown strategy: ${values.strategy}\n\n${USAGE}`);
+      return 2;
+    }
+    const maxDrops = counts['max-drops'];
+    results = [];
+    for (let i = 0; i < counts.runs; i++) {
+      // Strategy randomness is seeded too, so runs are reproducible
+      const random = createSeededRandom(seed + i + 0x9e3779b9);
+      let drops = 0;
+      results.push(play(seed + i, mode, sim => (drops++ < maxDrops ? strategy(sim, random) : null)));
+    }
+  } else {
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(results.length === 1 ? results[0] : results, null, 2));
+  } else {
+    results.forEach(printResult);
+    if (results.length > 1) {
+      const average = (pick: (r: RunResult) => number) =>
+        (results.reduce((sum, r) => sum + pick(r), 0) / results.length).toFixed(1);
+      console.log(`\n${results.length} runs: average score ${average(r => r.score)}, ` +
+        `merges ${average(r => r.merges)}, highest tier ${average(r => r.highestTier)}, ` +
+        `best ${Math.max(...results.map(r => r.score))}`);
+    }
+  }
+
+  if (expectedScore !== null) {
+    const actual = results[0].score;
+    if (actual !== expectedScore) {
+      console.error(`Expected score ${expectedScore}, got ${actual}`);
+      return 1;
+    }
+  }
+  return 0;
+}
+
+process.exit(main());
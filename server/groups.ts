@@ -0,0 +1,42 @@
+import type { GroupResult } from '../src/scripts/types';
+import { isValidPlayerId } from '../src/scripts/player';
+import { generateGroupCode, normalizeGroupCode } from '../src/scripts/groups';
+import { hashPlayerId, type ScoreTable } from './score-table';
+
+// Fresh codes to try before giving up - with about a billion codes, a clash
+// is already rare
+const CREATE_ATTEMPTS = 5;
+
+// Start a friend group with the player in it, under a new invite code
+export async function createGroup(table: ScoreTable, body: unknown): Promise<GroupResult> {
+  const { playerId } = (body ?? {}) as { playerId?: unknown };
+  if (!isValidPlayerId(playerId)) {
+    return { ok: false, reason: 'Invalid player id' };
+  }
+
+  for (let attempt = 0; attempt < CREATE_ATTEMPTS; attempt++) {
+    const code = generateGroupCode();
+    if (await table.createGroup(code, hashPlayerId(playerId))) {
+      return { ok: true, code };
+    }
+  }
+  return { ok: false, reason: 'No free invite code' };
+}
+
+// Join the group with this invite code. Members are stored by hashed player id,
+// the same as leaderboard rows, so the group's boards are a filter on those.
+export async function joinGroup(table: ScoreTable, body: unknown): Promise<GroupResult> {
+  const { playerId, code: rawCode } = (body ?? {}) as { playerId?: unknown; code?: unknown };
+  if (!isValidPlayerId(playerId)) {
+    return { ok: false, reason: 'Invalid player id' };
+  }
+  const code = normalizeGroupCode(rawCode);
+  if (!code) {
+    return { ok: false, reason: 'Invalid invite code' };
+  }
+
+  if (!await table.joinGroup(code, hashPlayerId(playerId))) {
+    return { ok: false, reason: 'No group with that code' };
+  }
+  return { ok: true, code };
+}
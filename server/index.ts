@@ -0,0 +1,42 @@
+import { createScoreServer } from './score-server';
+import { setNameBlocklist, parseNameBlocklist } from '../src/scripts/player';
+import { createMemoryScoreTable, createSupabaseScoreTable, type ScoreTable, type MemoryScoreTable } from './score-table';
+
+// Score server: the game posts finished replays here instead of writing scores
+// to the leaderboard itself. Run with `pnpm score-server`.
+//
+//   PORT                       Port to listen on (default 8787)
+//   SUPABASE_URL               Project URL
+//   SUPABASE_SERVICE_ROLE_KEY  Key allowed to write the leaderboard table
+//   ALLOWED_ORIGIN             Origin the game is served from (default *)
+//   NAME_BLOCKLIST             Comma-separated words names may not contain (match
+//                              the game's PUBLIC_NAME_BLOCKLIST)
+//
+// Without Supabase credentials scores go to an in-memory table, readable at
+// GET /leaderboard, so the whole flow can be tried locally. GET /leaderboard?mode=
+// serves one board from either table, for games built with the REST backend.
+// POST /rename-player renames a player's entries by their player id, and
+// POST /check-name says whether a rename to that name would go through.
+// POST /create-group and /join-group manage friend groups, whose boards are
+// GET /leaderboard?mode=&group=CODE.
+
+const PORT = Number(process.env.PORT ?? 8787);
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN ?? '*';
+
+function createTable(): { table: ScoreTable; memory: MemoryScoreTable | null } {
+  const url = process.env.SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (url && key) {
+    return { table: createSupabaseScoreTable(url, key), memory: null };
+  }
+  console.warn('No SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY - using an in-memory leaderboard');
+  const memory = createMemoryScoreTable();
+  return { table: memory, memory };
+}
+
+const { table, memory } = createTable();
+setNameBlocklist(parseNameBlocklist(process.env.NAME_BLOCKLIST));
+
+createScoreServer({ table, memory, allowedOrigin: ALLOWED_ORIGIN }).listen(PORT, () => {
+  console.log(`Score server listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,34 @@
+import type { NameCheckResult, PlayerRenameResult } from '../src/scripts/types';
+import { isValidPlayerId, validatePlayerName } from '../src/scripts/player';
+import { hashPlayerId, type ScoreTable } from './score-table';
+
+// Rename a player on every board they're on. The private player id is the only
+// proof of who they are, so the old name plays no part.
+export async function renamePlayer(table: ScoreTable, body: unknown): Promise<PlayerRenameResult> {
+  const check = await checkPlayerName(table, body);
+  if (!check.available) {
+    return { ok: false, reason: check.reason };
+  }
+
+  const { playerId, name } = body as { playerId: string; name: string };
+  await table.renamePlayer(hashPlayerId(playerId), name.trim());
+  return { ok: true };
+}
+
+// Whether the player could rename to this name: it passes the name rules and no
+// one else on the boards goes by it
+export async function checkPlayerName(table: ScoreTable, body: unknown): Promise<NameCheckResult> {
+  const { playerId, name } = (body ?? {}) as { playerId?: unknown; name?: unknown };
+  if (!isValidPlayerId(playerId)) {
+    return { available: false, reason: 'Invalid player id' };
+  }
+  const problem = validatePlayerName(name);
+  if (problem) {
+    return { available: false, reason: problem };
+  }
+
+  if (await table.isNameTaken((name as string).trim(), hashPlayerId(playerId))) {
+    return { available: false, reason: 'Taken by another player' };
+  }
+  return { available: true };
+}
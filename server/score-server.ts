@@ -0,0 +1,164 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { submitScore } from './submit-score';
+import { VerifierBusyError } from './verify-pool';
+import type { ScoreSubmissionResult } from '../src/scripts/types';
+import { renamePlayer, checkPlayerName } from './rename-player';
+import { createGroup, joinGroup } from './groups';
+import { normalizeGroupCode } from '../src/scripts/groups';
+import type { ScoreTable, MemoryScoreTable } from './score-table';
+
+// The score server's routes (see index.ts for what each one does), over a
+// score table. Kept apart from the process setup so tests can run it.
+
+export interface ScoreServerOptions {
+  table: ScoreTable;
+  memory: MemoryScoreTable | null; // The in-memory table, whose rows GET /leaderboard lists
+  allowedOrigin: string;
+}
+
+const MAX_BODY_BYTES = 512 * 1024;
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 100;
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+export function createScoreServer({ table, memory, allowedOrigin }: ScoreServerOptions): Server {
+  function sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': allowedOrigin,
+    });
+    res.end(JSON.stringify(body));
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname, searchParams } = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Origin': allowedOrigin,
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+      });
+      res.end();
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/submit-score') {
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch {
+        sendJson(res, 400, { accepted: false, reason: 'Malformed request body' });
+        return;
+      }
+
+      const started = performance.now();
+      let result: ScoreSubmissionResult;
+      try {
+        result = await submitScore(table, body);
+      } catch (e) {
+        if (!(e instanceof VerifierBusyError)) throw e;
+        // The game keeps the run and tries again later
+        console.warn('Busy - turned a run away');
+        sendJson(res, 503, { accepted: false, reason: 'Too busy to verify runs, try again later' });
+        return;
+      }
+      const elapsed = (performance.now() - started).toFixed(0);
+      console.log(result.accepted ? `Accepted ${result.score} (${elapsed}ms)` : `Rejected: ${result.reason} (${elapsed}ms)`);
+      sendJson(res, result.accepted ? 200 : 422, result);
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/rename-player') {
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch {
+        sendJson(res, 400, { ok: false, reason: 'Malformed request body' });
+        return;
+      }
+
+      const result = await renamePlayer(table, body);
+      console.log(result.ok ? 'Renamed a player' : `Rename rejected: ${result.reason}`);
+      sendJson(res, result.ok ? 200 : 422, result);
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/check-name') {
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch {
+        sendJson(res, 400, { available: false, reason: 'Malformed request body' });
+        return;
+      }
+
+      sendJson(res, 200, await checkPlayerName(table, body));
+      return;
+    }
+
+    if (req.method === 'POST' && (pathname === '/create-group' || pathname === '/join-group')) {
+      let body: unknown;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch {
+        sendJson(res, 400, { ok: false, reason: 'Malformed request body' });
+        return;
+      }
+
+      const result = pathname === '/create-group' ? await createGroup(table, body) : await joinGroup(table, body);
+      console.log(result.ok ? `${pathname === '/create-group' ? 'Created' : 'Joined'} group ${result.code}` : `Group request rejected: ${result.reason}`);
+      sendJson(res, result.ok ? 200 : 422, result);
+      return;
+    }
+
+    // One board for the game's REST leaderboard backend: ?mode=&date=&limit=,
+    // and &group= for a friend group's
+    if (req.method === 'GET' && pathname === '/leaderboard' && searchParams.has('mode')) {
+      const mode = searchParams.get('mode');
+      if (mode !== 'daily' && mode !== 'freeplay' && mode !== 'rush') {
+        sendJson(res, 400, { error: 'Unknown leaderboard mode' });
+        return;
+      }
+      const group = searchParams.has('group') ? normalizeGroupCode(searchParams.get('group')) : undefined;
+      if (group === null) {
+        sendJson(res, 400, { error: 'Invalid invite code' });
+        return;
+      }
+      const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+      sendJson(res, 200, await table.listEntries(mode, searchParams.get('date') ?? undefined, limit, group));
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/leaderboard' && memory) {
+      sendJson(res, 200, [...memory.rows].sort((a, b) => b.score - a.score));
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  }
+
+  return createServer((req, res) => {
+    handleRequest(req, res).catch(e => {
+      console.error('Request failed:', e);
+      sendJson(res, 500, { accepted: false, reason: 'Server error' });
+    });
+  });
+}
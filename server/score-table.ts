@@ -0,0 +1,214 @@
+import { createHash } from 'node:crypto';
+import { createClient } from '@supabase/supabase-js';
+import type { LeaderboardGameMode } from '../src/scripts/types';
+
+// The leaderboard table, and the friend groups that filter it, as the score
+// server sees them. Supabase in production (tables `leaderboard`, `groups` and
+// `group_members`), an in-memory stand-in for local runs and testing.
+
+export type { LeaderboardGameMode };
+
+export interface ScoreRow {
+  id: string;
+  name: string;
+  score: number;
+  game_mode: LeaderboardGameMode;
+  daily_date?: string;
+  created_at?: string;
+  player_id?: string; // See hashPlayerId (missing on rows from before player ids)
+}
+
+// Rows keep a hash of the player's id, never the id itself: the table is
+// publicly readable, and the id is what lets a player write to their rows
+export function hashPlayerId(playerId: string): string {
+  return createHash('sha256').update(playerId).digest('hex');
+}
+
+// Postgres error code for a duplicate key
+const UNIQUE_VIOLATION = '23505';
+
+export interface ScoreTable {
+  // A player's entry for a mode (and day, for daily). Rows from before ids are
+  // nobody's - a name is no proof of who made them.
+  findEntry(playerId: string, gameMode: LeaderboardGameMode, dailyDate?: string): Promise<ScoreRow | null>;
+  // The name on a player's rows (they all share it), or null before their first
+  findPlayerName(playerId: string): Promise<string | null>;
+  insertEntry(entry: Omit<ScoreRow, 'id' | 'created_at'>): Promise<void>;
+  updateEntry(id: string, changes: Partial<Pick<ScoreRow, 'score'>>): Promise<void>;
+  // Give every one of a player's rows a new name
+  renamePlayer(playerId: string, name: string): Promise<void>;
+  // Whether a row that isn't the player's has this name (ignoring case)
+  isNameTaken(name: string, playerId: string): Promise<boolean>;
+  // Top entries for a mode (and day), highest score first - only the group's
+  // members' when a group is given
+  listEntries(gameMode: LeaderboardGameMode, dailyDate: string | undefined, limit: number, group?: string): Promise<ScoreRow[]>;
+  // Start a group with the player in it; false when the code is already in use
+  createGroup(code: string, playerId: string): Promise<boolean>;
+  // Add the player to a group (again is fine); false when there's no such group
+  joinGroup(code: string, playerId: string): Promise<boolean>;
+}
+
+// Writes with the service role key - the anon key the game ships with should
+// only be allowed to read the table
+export function createSupabaseScoreTable(url: string, serviceRoleKey: string): ScoreTable {
+  const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+  return {
+    async findEntry(playerId, gameMode, dailyDate) {
+      let query = supabase
+        .from('leaderboard')
+        .select('*')
+        .eq('game_mode', gameMode)
+        .eq('player_id', playerId);
+      if (dailyDate) {
+        query = query.eq('daily_date', dailyDate);
+      }
+      const { data, error } = await query.limit(1).maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+
+    async findPlayerName(playerId) {
+      const { data, error } = await supabase
+        .from('leaderboard')
+        .select('name')
+        .eq('player_id', playerId)
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.name ?? null;
+    },
+
+    async insertEntry(entry) {
+      const { error } = await supabase.from('leaderboard').insert(entry);
+      if (error) throw error;
+    },
+
+    async updateEntry(id, changes) {
+      const { error } = await supabase.from('leaderboard').update(changes).eq('id', id);
+      if (error) throw error;
+    },
+
+    async renamePlayer(playerId, name) {
+      const { error } = await supabase.from('leaderboard').update({ name }).eq('player_id', playerId);
+      if (error) throw error;
+    },
+
+    async isNameTaken(name, playerId) {
+      // Escape ilike's wildcards; the hashed id is plain hex
+      const { data, error } = await supabase
+        .from('leaderboard')
+        .select('id')
+        .ilike('name', name.replace(/[\\%_]/g, '\\$&'))
+        .or(`player_id.is.null,player_id.neq.${playerId}`)
+        .limit(1);
+      if (error) throw error;
+      return (data ?? []).length > 0;
+    },
+
+    async listEntries(gameMode, dailyDate, limit, group) {
+      let query = supabase
+        .from('leaderboard')
+        .select('*')
+        .eq('game_mode', gameMode)
+        .order('score', { ascending: false })
+        .limit(limit);
+      if (dailyDate) {
+        query = query.eq('daily_date', dailyDate);
+      }
+      if (group) {
+        const { data: members, error } = await supabase.from('group_members').select('player_id').eq('code', group);
+        if (error) throw error;
+        query = query.in('player_id', (members ?? []).map(member => member.player_id));
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async createGroup(code, playerId) {
+      const { error } = await supabase.from('groups').insert({ code });
+      if (error?.code === UNIQUE_VIOLATION) return false;
+      if (error) throw error;
+      const { error: memberError } = await supabase.from('group_members').insert({ code, player_id: playerId });
+      if (memberError) throw memberError;
+      return true;
+    },
+
+    async joinGroup(code, playerId) {
+      const { data, error } = await supabase.from('groups').select('code').eq('code', code).maybeSingle();
+      if (error) throw error;
+      if (!data) return false;
+      const { error: memberError } = await supabase
+        .from('group_members')
+        .upsert({ code, player_id: playerId }, { onConflict: 'code,player_id', ignoreDuplicates: true });
+      if (memberError) throw memberError;
+      return true;
+    },
+  };
+}
+
+export interface MemoryScoreTable extends ScoreTable {
+  rows: ScoreRow[];
+}
+
+// Local stand-in with the same row shape, for running the server without Supabase
+export function createMemoryScoreTable(rows: ScoreRow[] = []): MemoryScoreTable {
+  let nextId = rows.length + 1;
+  const groups = new Map<string, Set<string>>(); // Members by invite code
+
+  return {
+    rows,
+
+    async findEntry(playerId, gameMode, dailyDate) {
+      return rows.find(row =>
+        row.player_id === playerId && row.game_mode === gameMode && (!dailyDate || row.daily_date === dailyDate)
+      ) ?? null;
+    },
+
+    async findPlayerName(playerId) {
+      return rows.find(row => row.player_id === playerId)?.name ?? null;
+    },
+
+    async insertEntry(entry) {
+      rows.push({ ...entry, id: String(nextId++), created_at: new Date().toISOString() });
+    },
+
+    async updateEntry(id, changes) {
+      const row = rows.find(r => r.id === id);
+      if (row) Object.assign(row, changes);
+    },
+
+    async renamePlayer(playerId, name) {
+      for (const row of rows) {
+        if (row.player_id === playerId) row.name = name;
+      }
+    },
+
+    async isNameTaken(name, playerId) {
+      const lower = name.toLowerCase();
+      return rows.some(row => row.player_id !== playerId && row.name.toLowerCase() === lower);
+    },
+
+    async listEntries(gameMode, dailyDate, limit, group) {
+      const members = group ? groups.get(group) ?? new Set<string>() : null;
+      return rows
+        .filter(row => row.game_mode === gameMode && (!dailyDate || row.daily_date === dailyDate))
+        .filter(row => !members || (row.player_id !== undefined && members.has(row.player_id)))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+
+    async createGroup(code, playerId) {
+      if (groups.has(code)) return false;
+      groups.set(code, new Set([playerId]));
+      return true;
+    },
+
+    async joinGroup(code, playerId) {
+      const members = groups.get(code);
+      members?.add(playerId);
+      return !!members;
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import type { GameMode, ScoreSubmissionResult } from '../src/scripts/types';
+import { parseReplay } from '../src/scripts/replay';
+import { verifyReplayInWorker } from './verify-pool';
+import { checkPlayerName } from './rename-player';
+import { isValidPlayerId, validatePlayerName } from '../src/scripts/player';
+import { hashPlayerId, type ScoreTable, type LeaderboardGameMode } from './score-table';
+
+// Modes without a leaderboard, as named in the rejection
+const UNRANKED_MODES: Partial<Record<GameMode, string>> = {
+  zen: 'Zen',
+  puzzle: 'Puzzle',
+  online: 'Online versus',
+};
+
+// Verify a submitted replay and keep the player's best verified score. Throws
+// a VerifierBusyError when the server has too many replays to get through.
+// Daily keeps one entry per player per day, free play and Mochi Rush one entry
+// per player. Entries follow the player id. A player's first entry takes the
+// name they submit with, as long as no one else uses it; after that their name
+// only changes through renamePlayer, so every board shows the same one.
+export async function submitScore(table: ScoreTable, body: unknown, now: Date = new Date()): Promise<ScoreSubmissionResult> {
+  const { playerId, name, replay: rawReplay } = (body ?? {}) as { playerId?: unknown; name?: unknown; replay?: unknown };
+  if (!isValidPlayerId(playerId)) {
+    return { accepted: false, reason: 'Invalid player id' };
+  }
+  if (typeof name !== 'string' || validatePlayerName(name)) {
+    return { accepted: false, reason: 'Invalid player name' };
+  }
+  const displayName = name.trim();
+  const storedId = hashPlayerId(playerId);
+
+  const replay = parseReplay(JSON.stringify(rawReplay ?? null));
+  if (!replay) {
+    return { accepted: false, reason: 'Not a playable replay' };
+  }
+  const unranked = UNRANKED_MODES[replay.mode];
+  if (unranked) {
+    return { accepted: false, reason: `${unranked} runs are not ranked` };
+  }
+  if (replay.archive) {
+    return { accepted: false, reason: 'Archive runs are not ranked' };
+  }
+
+  const currentName = await table.findPlayerName(storedId);
+  if (currentName === null) {
+    const check = await checkPlayerName(table, body);
+    if (!check.available) {
+      return { accepted: false, reason: check.reason };
+    }
+  }
+
+  const verdict = await verifyReplayInWorker(replay, now);
+  if (!verdict.ok) {
+    return { accepted: false, reason: verdict.reason };
+  }
+
+  const gameMode: LeaderboardGameMode = replay.mode === 'daily' || replay.mode === 'rush' ? replay.mode : 'freeplay';
+  const dailyDate = replay.mode === 'daily' ? replay.dailyDate : undefined;
+
+  const existing = await table.findEntry(storedId, gameMode, dailyDate);
+  if (existing) {
+    // Only raise the score
+    if (verdict.score > existing.score) {
+      await table.updateEntry(existing.id, { score: verdict.score });
+    }
+  } else {
+    await table.insertEntry({
+      name: currentName ?? displayName,
+      score: verdict.score,
+      game_mode: gameMode,
+      player_id: storedId,
+      ...(dailyDate ? { daily_date: dailyDate } : {}),
+    });
+  }
+
+  return { accepted: true, score: verdict.score };
+}
@@ -0,0 +1,90 @@
+import { Worker } from 'node:worker_threads';
+import type { Replay } from '../src/scripts/types';
+import type { ReplayVerdict } from './verify-replay';
+
+// Replays are re-simulated in worker threads, so a long one never holds up the
+// server's event loop. A few run at once, each with a time limit, and a short
+// queue waits behind them - past that the server is busy and the game's score
+// queue tries again later.
+
+const MAX_WORKERS = 2;
+const MAX_WAITING = 16;
+const VERIFY_TIMEOUT_MS = 60 * 1000;
+
+const WORKER_URL = new URL('./verify-worker.mjs', import.meta.url);
+
+// What a worker is sent (a Date doesn't survive the trip, so epoch ms)
+export interface VerifyRequest {
+  replay: Replay;
+  now: number;
+}
+
+interface VerifyJob extends VerifyRequest {
+  resolve: (verdict: ReplayVerdict) => void;
+  reject: (error: Error) => void;
+}
+
+// Thrown when too many replays are already waiting; the run should be retried
+export class VerifierBusyError extends Error {}
+
+const idleWorkers: Worker[] = [];
+const waiting: VerifyJob[] = [];
+let runningCount = 0;
+
+// verifyReplay, in a worker. A replay still running after the time limit is
+// rejected and its worker stopped.
+export function verifyReplayInWorker(replay: Replay, now: Date = new Date()): Promise<ReplayVerdict> {
+  return new Promise((resolve, reject) => {
+    if (waiting.length >= MAX_WAITING) {
+      reject(new VerifierBusyError('Too many replays waiting to be verified'));
+      return;
+    }
+    waiting.push({ replay, now: now.getTime(), resolve, reject });
+    runWaiting();
+  });
+}
+
+function runWaiting(): void {
+  while (runningCount < MAX_WORKERS && waiting.length > 0) {
+    runningCount++;
+    runJob(idleWorkers.pop() ?? new Worker(WORKER_URL), waiting.shift()!);
+  }
+}
+
+function runJob(worker: Worker, job: VerifyJob): void {
+  const onMessage = (verdict: ReplayVerdict) => {
+    release(true);
+    job.resolve(verdict);
+  };
+  const onError = (error: Error) => {
+    release(false);
+    job.reject(error);
+  };
+  const onExit = (code: number) => {
+    release(false);
+    job.reject(new Error(`Verification worker exited (${code})`));
+  };
+  const timer = setTimeout(() => {
+    release(false);
+    job.resolve({ ok: false, reason: 'Replay took too long to verify' });
+  }, VERIFY_TIMEOUT_MS);
+
+  // Idle workers are kept for the next replay, but don't keep the process alive.
+  // Only our own listeners come off: Worker has internal ones of its own.
+  function release(reusable: boolean): void {
+    clearTimeout(timer);
+    worker.off('message', onMessage).off('error', onError).off('exit', onExit);
+    if (reusable) {
+      worker.unref();
+      idleWorkers.push(worker);
+    } else {
+      worker.terminate();
+    }
+    runningCount--;
+    runWaiting();
+  }
+
+  worker.on('message', onMessage).on('error', onError).on('exit', onExit);
+  worker.ref();
+  worker.postMessage({ replay: job.replay, now: job.now } satisfies VerifyRequest);
+}
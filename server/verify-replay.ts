@@ -0,0 +1,77 @@
+import type { PhysicsConfig, Replay } from '../src/scripts/types';
+import { defaultConfig } from '../src/scripts/physics';
+import { getSeedFromDate, daysBetween } from '../src/scripts/daily';
+import { getReplayLength } from '../src/scripts/replay';
+import { getRulesForMode, simulateReplay } from '../src/scripts/simulation';
+
+// Limits that keep a single verification cheap (~120 ticks per second of play).
+// A game on a full board costs well over a third of a millisecond a tick, so
+// these stay close to how long real runs last.
+const MAX_GAME_TICKS = 120 * 60 * 15; // Fifteen minutes, for untimed modes
+const CLOCK_MARGIN_TICKS = 120 * 5; // Timed modes end with the clock - a little slack past it
+const MAX_REPLAY_DROPS = 5000;
+
+// Days a daily replay may be submitted for, relative to the server's UTC date
+// (a game started just before midnight finishes the next day). With the daily
+// rolling over at local midnight, players east of UTC reach a date up to a day
+// before the server does.
+const DAILY_GRACE_DAYS = 1;
+const DAILY_EARLY_DAYS = 1;
+
+export type ReplayVerdict =
+  | { ok: true; score: number; mergeCount: number; highestTier: number; ticks: number }
+  | { ok: false; reason: string };
+
+function getMaxReplayTicks(replay: Replay): number {
+  const { timeLimitTicks } = getRulesForMode(replay.mode);
+  return timeLimitTicks === null ? MAX_GAME_TICKS : timeLimitTicks + CLOCK_MARGIN_TICKS;
+}
+
+function sameConfig(a: PhysicsConfig, b: PhysicsConfig): boolean {
+  const keys = Object.keys(b) as (keyof PhysicsConfig)[];
+  return Object.keys(a).length === keys.length && keys.every(key => a[key] === b[key]);
+}
+
+// Re-simulate a submitted replay with the game's own rules and physics and work
+// out the score it really earns. The score claimed in the replay is ignored.
+// This blocks for as long as the run lasts - the score server calls it from a
+// worker (see verify-pool.ts).
+export function verifyReplay(replay: Replay, now: Date = new Date()): ReplayVerdict {
+  // Ranked games start on an empty board
+  if (replay.level !== undefined) {
+    return { ok: false, reason: 'Replay starts from a preset board' };
+  }
+  if (!sameConfig(replay.config, defaultConfig)) {
+    return { ok: false, reason: 'Replay uses a modified physics config' };
+  }
+  if (replay.drops.length > MAX_REPLAY_DROPS || getReplayLength(replay) > getMaxReplayTicks(replay)) {
+    return { ok: false, reason: 'Replay is too long' };
+  }
+
+  if (replay.mode === 'daily') {
+    const today = now.toISOString().split('T')[0];
+    if (!replay.dailyDate || !/^\d{4}-\d{2}-\d{2}$/.test(replay.dailyDate)) {
+      return { ok: false, reason: 'Daily replay has no date' };
+    }
+    const age = daysBetween(replay.dailyDate, today);
+    if (age < -DAILY_EARLY_DAYS || age > DAILY_GRACE_DAYS) {
+      return { ok: false, reason: `Daily challenge ${replay.dailyDate} is closed` };
+    }
+    if (replay.seed !== getSeedFromDate(replay.dailyDate)) {
+      return { ok: false, reason: 'Replay seed does not match the daily challenge' };
+    }
+  }
+
+  const sim = simulateReplay(replay);
+  if (sim.score <= 0) {
+    return { ok: false, reason: 'Replay scores no points' };
+  }
+
+  return {
+    ok: true,
+    score: sim.score,
+    mergeCount: sim.mergeCount,
+    highestTier: sim.highestTier,
+    ticks: sim.tick,
+  };
+}
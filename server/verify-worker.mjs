@@ -0,0 +1,7 @@
+// Entry point for verify-pool.ts's workers. On Node 20 a worker thread doesn't
+// pick up tsx's loader from the server, so register it before loading the
+// TypeScript worker.
+import { register } from 'tsx/esm/api';
+
+register();
+await import('./verify-worker.ts');
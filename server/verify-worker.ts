@@ -0,0 +1,9 @@
+import { parentPort } from 'node:worker_threads';
+import { verifyReplay } from './verify-replay';
+import type { VerifyRequest } from './verify-pool';
+
+// One of verify-pool.ts's workers: re-simulates a replay at a time, off the
+// score server's event loop
+parentPort?.on('message', ({ replay, now }: VerifyRequest) => {
+  parentPort?.postMessage(verifyReplay(replay, new Date(now)));
+});
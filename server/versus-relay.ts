@@ -0,0 +1,131 @@
+import { createServer } from 'node:http';
+import { acceptWebSocket, type WebSocketConnection } from './websocket';
+import type { VersusClientMessage, VersusRelayMessage } from '../src/scripts/versus-protocol';
+
+// Reference relay for online versus. Run with `pnpm versus-relay`.
+//
+//   PORT   Port to listen on (default 8788)
+//
+// Players join a room by name; the first two get it. Once both have sent
+// `ready` the relay picks a seed and starts them together, then passes drops,
+// snapshots and results straight through to the other player. It keeps no
+// scores and checks nothing - each side re-simulates the other's drops itself.
+
+const PORT = Number(process.env.PORT ?? 8788);
+const MAX_ROOM_NAME = 64;
+const MAX_NAME_LENGTH = 32;
+
+interface Seat {
+  connection: WebSocketConnection;
+  name: string;
+  ready: boolean;
+}
+
+const rooms = new Map<string, [Seat | null, Seat | null]>();
+
+function send(seat: Seat | null, message: VersusRelayMessage): void {
+  seat?.connection.send(JSON.stringify(message));
+}
+
+function parseMessage(text: string): VersusClientMessage | null {
+  try {
+    const message = JSON.parse(text) as VersusClientMessage;
+    return message && typeof message.type === 'string' ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+function handleConnection(connection: WebSocketConnection): void {
+  let room: string | null = null;
+  let index: 0 | 1 = 0;
+
+  connection.onMessage = text => {
+    const message = parseMessage(text);
+    if (!message) return;
+
+    if (message.type === 'join') {
+      if (room !== null) return;
+      if (typeof message.room !== 'string' || message.room.length === 0 || message.room.length > MAX_ROOM_NAME) {
+        connection.send(JSON.stringify({ type: 'error', reason: 'Invalid room name' } satisfies VersusRelayMessage));
+        return;
+      }
+      const seats = rooms.get(message.room) ?? [null, null];
+      const free = seats.indexOf(null);
+      if (free < 0) {
+        connection.send(JSON.stringify({ type: 'error', reason: 'Room is full' } satisfies VersusRelayMessage));
+        return;
+      }
+
+      room = message.room;
+      index = free as 0 | 1;
+      const name = String(message.name).slice(0, MAX_NAME_LENGTH);
+      seats[index] = { connection, name, ready: false };
+      rooms.set(room, seats);
+      console.log(`${name} joined ${room} as player ${index + 1}`);
+
+      send(seats[index], { type: 'joined', player: index });
+      const opponent = seats[1 - index];
+      if (opponent) {
+        send(opponent, { type: 'opponent', name });
+        send(seats[index], { type: 'opponent', name: opponent.name });
+      }
+      return;
+    }
+
+    const seats = room !== null ? rooms.get(room) : undefined;
+    if (!seats) return;
+    const self = seats[index];
+    const opponent = seats[1 - index];
+
+    switch (message.type) {
+      case 'ready':
+        if (!self || !opponent) return;
+        self.ready = true;
+        if (opponent.ready) {
+          const seed = Math.floor(Math.random() * 4294967296);
+          self.ready = false;
+          opponent.ready = false;
+          send(self, { type: 'start', seed });
+          send(opponent, { type: 'start', seed });
+          console.log(`${room}: started with seed ${seed}`);
+        }
+        break;
+
+      case 'drop':
+      case 'snapshot':
+      case 'result':
+        send(opponent, message);
+        break;
+    }
+  };
+
+  connection.onClose = () => {
+    if (room === null) return;
+    const seats = rooms.get(room);
+    if (!seats) return;
+    seats[index] = null;
+    const opponent = seats[1 - index];
+    if (opponent) {
+      opponent.ready = false;
+      send(opponent, { type: 'opponent', name: null });
+    } else {
+      rooms.delete(room);
+    }
+    console.log(`Player ${index + 1} left ${room}`);
+  };
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Versus relay - connect with a WebSocket\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const connection = acceptWebSocket(req, socket);
+  if (connection) handleConnection(connection);
+});
+
+server.listen(PORT, () => {
+  console.log(`Versus relay listening on ws://localhost:${PORT}`);
+});
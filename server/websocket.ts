@@ -0,0 +1,132 @@
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+// Just enough of RFC 6455 for the versus relay: the upgrade handshake, text
+// frames both ways, ping/pong and close. No extensions, and fragmented messages
+// are refused (a client sending one is disconnected).
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_BYTES = 64 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+export interface WebSocketConnection {
+  send(text: string): void;
+  close(): void;
+  onMessage: (text: string) => void;
+  onClose: () => void;
+}
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN + opcode
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Complete an HTTP upgrade request, or refuse it. Returns null when refused.
+export function acceptWebSocket(req: IncomingMessage, socket: Duplex): WebSocketConnection | null {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  let closed = false;
+  let buffered = Buffer.alloc(0);
+
+  const connection: WebSocketConnection = {
+    send(text) {
+      if (!closed) socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      // Nothing more is read; the socket goes once the close frame is out
+      socket.off('data', onData);
+      buffered = Buffer.alloc(0);
+      socket.end(encodeFrame(OPCODE_CLOSE, Buffer.alloc(0)), () => socket.destroy());
+      connection.onClose();
+    },
+    onMessage: () => {},
+    onClose: () => {},
+  };
+
+  // Client frames are always masked; pull whole frames off the front of the buffer
+  function readFrames(): void {
+    while (buffered.length >= 2) {
+      const final = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) return;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return;
+        length = Number(buffered.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked || length > MAX_FRAME_BYTES || !final || opcode === OPCODE_CONTINUATION) {
+        connection.close();
+        return;
+      }
+      if (buffered.length < offset + 4 + length) return;
+
+      const mask = buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      buffered = buffered.subarray(offset + 4 + length);
+
+      if (opcode === OPCODE_TEXT) {
+        connection.onMessage(payload.toString('utf8'));
+      } else if (opcode === OPCODE_PING) {
+        socket.write(encodeFrame(OPCODE_PONG, payload));
+      } else if (opcode === OPCODE_CLOSE) {
+        connection.close();
+        return;
+      }
+    }
+  }
+
+  function onData(chunk: Buffer): void {
+    buffered = Buffer.concat([buffered, chunk]);
+    readFrames();
+  }
+
+  socket.on('data', onData);
+  socket.on('close', () => {
+    if (closed) return;
+    closed = true;
+    connection.onClose();
+  });
+  socket.on('error', () => socket.destroy());
+
+  return connection;
+}
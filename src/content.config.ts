@@ -0,0 +1,27 @@
+import { defineCollection, z } from 'astro:content';
+import { glob } from 'astro/loaders';
+
+// Puzzle levels - one JSON file per level in src/levels, played in file name
+// order. The file name (without .json) is the level id progress is saved under.
+
+const tier = z.number().int().min(0).max(10);
+
+const levels = defineCollection({
+  loader: glob({ pattern: '*.json', base: './src/levels' }),
+  schema: z.object({
+    name: z.string(),
+    // Starting board, in container coordinates (walls at x 15 and 305, floor at y 435)
+    mochis: z.array(z.object({ tier, x: z.number(), y: z.number() })),
+    // Tiers handed to the player, in order - one per drop
+    drops: z.array(tier).min(1),
+    goal: z.discriminatedUnion('type', [
+      z.object({ type: z.literal('reachTier'), tier }),
+      z.object({ type: z.literal('clearTier'), tier }),
+      z.object({ type: z.literal('score'), score: z.number().int().positive() }),
+    ]),
+    // Most drops used for [two stars, three stars]
+    stars: z.tuple([z.number().int().positive(), z.number().int().positive()]),
+  }),
+});
+
+export const collections = { levels };
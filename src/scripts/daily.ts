@@ -1,22 +1,57 @@
-import type { DailyChallenge } from './types';
+import type { DailyChallenge, DailyHistory, DailyHistoryEntry, DailyStats, Replay } from './types';
+
+export interface SeededRandom {
+  (): number;
+  // Current position in the sequence - createSeededRandom(state) continues from here
+  getState(): number;
+}
 
 // Seeded random number generator (mulberry32)
 // Returns a function that produces deterministic random numbers from 0-1
-export function createSeededRandom(seed: number): () => number {
-  return function() {
+export function createSeededRandom(seed: number): SeededRandom {
+  const random = function() {
     let t = seed += 0x6D2B79F5;
     t = Math.imul(t ^ t >>> 15, t | 1);
     t ^= t + Math.imul(t ^ t >>> 7, t | 61);
     return ((t ^ t >>> 14) >>> 0) / 4294967296;
-  };
+  } as SeededRandom;
+  random.getState = () => seed;
+  return random;
+}
+
+// Fresh seed for games that aren't tied to a date (free play)
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// When the daily rolls over: at UTC midnight for everyone at once, or at the
+// player's own local midnight. Either way a date names one puzzle - its seed
+// comes from the date string alone, so the same day plays the same everywhere.
+export type DailyRollover = 'utc' | 'local';
+
+let dailyRollover: DailyRollover = 'utc';
+
+export function setDailyRollover(policy: DailyRollover): void {
+  dailyRollover = policy;
 }
 
-// Get today's date as YYYY-MM-DD string
-export function getTodayString(): string {
-  const now = new Date();
+// Get today's date as YYYY-MM-DD string, under the rollover policy. Local dates
+// come from the calendar fields, so DST changes never skip or repeat a day.
+export function getTodayString(now: Date = new Date()): string {
+  if (dailyRollover === 'local') {
+    const month = String(now.getMonth() + 1).padStart(2, '0');
+    const day = String(now.getDate()).padStart(2, '0');
+    return `${now.getFullYear()}-${month}-${day}`;
+  }
   return now.toISOString().split('T')[0];
 }
 
+// Whole days from one YYYY-MM-DD date to another. Works on the date strings
+// alone, so no timezone or DST shift can change the answer.
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
 // Generate a seed from a date string
 export function getSeedFromDate(dateStr: string): number {
   let hash = 0;
@@ -30,56 +65,194 @@ export function getSeedFromDate(dateStr: string): number {
 }
 
 // Calculate day number since launch (for "Mochii #123" format)
-const LAUNCH_DATE = new Date('2026-01-26');
+export const LAUNCH_DAY = '2026-01-26';
 export function getDayNumber(dateStr: string): number {
-  const date = new Date(dateStr);
-  const diffTime = date.getTime() - LAUNCH_DATE.getTime();
-  const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-  return diffDays + 1; // Day 1 is launch day
+  return daysBetween(LAUNCH_DAY, dateStr) + 1; // Day 1 is launch day
 }
 
-// LocalStorage key for daily challenges
-const DAILY_STORAGE_KEY = 'mochiDailyChallenge';
+// Whether a date has a daily to play: a real YYYY-MM-DD day from launch up to today
+export function isPlayableDailyDate(dateStr: string, today: string = getTodayString()): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) return false;
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== dateStr) return false;
+  return dateStr >= LAUNCH_DAY && dateStr <= today;
+}
 
-// Load today's daily challenge from localStorage
-export function loadDailyChallenge(): DailyChallenge | null {
+// Every date in a YYYY-MM month, in order
+export function getMonthDates(month: string): string[] {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const days = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return Array.from({ length: days }, (_, i) => `${month}-${String(i + 1).padStart(2, '0')}`);
+}
+
+// The YYYY-MM month `delta` months from `month`
+export function addMonths(month: string, delta: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + delta, 1)).toISOString().slice(0, 7);
+}
+
+// LocalStorage key for the daily history, and the single-day key it replaced
+const DAILY_HISTORY_KEY = 'mochiDailyHistory';
+const LEGACY_DAILY_KEY = 'mochiDailyChallenge';
+
+// Every finished daily on this device, by date. Moves a result saved under the
+// old single-day key into the history the first time it's read.
+export function loadDailyHistory(): DailyHistory {
+  let history: DailyHistory = {};
   try {
-    const stored = localStorage.getItem(DAILY_STORAGE_KEY);
-    if (!stored) return null;
+    const stored = localStorage.getItem(DAILY_HISTORY_KEY);
+    if (stored) history = JSON.parse(stored) as DailyHistory;
+
+    const legacy = localStorage.getItem(LEGACY_DAILY_KEY);
+    if (legacy) {
+      const challenge = JSON.parse(legacy) as DailyChallenge;
+      if (challenge.played && !history[challenge.date]) {
+        history[challenge.date] = toHistoryEntry(challenge);
+        localStorage.setItem(DAILY_HISTORY_KEY, JSON.stringify(history));
+      }
+      localStorage.removeItem(LEGACY_DAILY_KEY);
+    }
+  } catch {
+    // Unreadable or unavailable storage - carry on with what we have
+  }
+  return history;
+}
+
+function toHistoryEntry(challenge: DailyChallenge, playedAt?: number, replay?: Replay): DailyHistoryEntry {
+  return {
+    date: challenge.date,
+    score: challenge.score,
+    highestTier: challenge.highestTier,
+    mergeCount: challenge.mergeCount,
+    ...(challenge.bestCombo !== undefined ? { bestCombo: challenge.bestCombo } : {}),
+    ...(playedAt !== undefined ? { playedAt } : {}),
+    ...(replay ? { replay } : {}),
+  };
+}
 
-    const challenge = JSON.parse(stored) as DailyChallenge;
-    const today = getTodayString();
+// Load today's daily challenge from the history (null until it's played)
+export function loadDailyChallenge(): DailyChallenge | null {
+  const today = getTodayString();
+  const entry = loadDailyHistory()[today];
+  if (!entry) return null;
+
+  return {
+    ...createDailyChallenge(today),
+    played: true,
+    score: entry.score,
+    highestTier: entry.highestTier,
+    mergeCount: entry.mergeCount,
+    bestCombo: entry.bestCombo ?? 0,
+  };
+}
+
+// Save a finished daily into the history. Replays are the bulk of it, so if
+// storage is full the older ones are dropped first, then this one.
+export function saveDailyChallenge(challenge: DailyChallenge, replay?: Replay): DailyHistory {
+  const history = loadDailyHistory();
+  history[challenge.date] = toHistoryEntry(challenge, Date.now(), replay);
 
-    // Return null if it's from a different day
-    if (challenge.date !== today) {
-      return null;
+  const olderWithReplays = Object.keys(history)
+    .filter(date => date !== challenge.date && history[date].replay)
+    .sort();
+  for (;;) {
+    try {
+      localStorage.setItem(DAILY_HISTORY_KEY, JSON.stringify(history));
+      break;
+    } catch {
+      const oldest = olderWithReplays.shift();
+      if (oldest) {
+        delete history[oldest].replay;
+      } else if (history[challenge.date].replay) {
+        delete history[challenge.date].replay;
+      } else {
+        break; // Storage unavailable altogether
+      }
     }
+  }
+  return history;
+}
 
-    return challenge;
-  } catch {
-    return null;
+// Date string `days` days from `dateStr`
+export function addDays(dateStr: string, days: number): string {
+  const date = new Date(`${dateStr}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+// Days in a row played, ending with the latest one. It's still alive while
+// that day is today or yesterday - or later, after moving to a timezone that's
+// behind - so an unplayed today doesn't break it until the day is over.
+export function getCurrentStreak(history: DailyHistory, today: string = getTodayString()): number {
+  const latest = Object.keys(history).sort().pop();
+  if (!latest || latest < addDays(today, -1)) return 0;
+  let date = latest;
+  let streak = 0;
+  while (history[date]) {
+    streak++;
+    date = addDays(date, -1);
   }
+  return streak;
 }
 
-// Save daily challenge result to localStorage
-export function saveDailyChallenge(challenge: DailyChallenge): void {
-  try {
-    localStorage.setItem(DAILY_STORAGE_KEY, JSON.stringify(challenge));
-  } catch {
-    // Silently fail if localStorage is not available
+// Longest run of consecutive days ever played
+export function getBestStreak(history: DailyHistory): number {
+  let best = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const date of Object.keys(history).sort()) {
+    run = previous !== null && addDays(previous, 1) === date ? run + 1 : 1;
+    best = Math.max(best, run);
+    previous = date;
+  }
+  return best;
+}
+
+// Highest-scoring daily ever played, if any
+export function getDailyPersonalBest(history: DailyHistory): DailyHistoryEntry | null {
+  return Object.values(history).reduce<DailyHistoryEntry | null>(
+    (best, entry) => (!best || entry.score > best.score ? entry : best),
+    null,
+  );
+}
+
+// Everything on the statistics panel
+export function getDailyStats(history: DailyHistory, today: string = getTodayString()): DailyStats {
+  const entries = Object.values(history);
+  const tierCounts: number[] = [];
+  for (const entry of entries) {
+    tierCounts[entry.highestTier] = (tierCounts[entry.highestTier] ?? 0) + 1;
   }
+  return {
+    played: entries.length,
+    currentStreak: getCurrentStreak(history, today),
+    bestStreak: getBestStreak(history),
+    averageScore: entries.length > 0 ? Math.round(entries.reduce((sum, e) => sum + e.score, 0) / entries.length) : 0,
+    bestScore: getDailyPersonalBest(history)?.score ?? 0,
+    tierCounts: Array.from(tierCounts, count => count ?? 0),
+  };
+}
+
+// Results for each played day of a YYYY-MM month, for a results calendar
+export function getMonthResults(history: DailyHistory, month: string): DailyHistoryEntry[] {
+  return getMonthDates(month).flatMap(date => (history[date] ? [history[date]] : []));
 }
 
 // Create a new daily challenge for today
 export function createTodayChallenge(): DailyChallenge {
-  const today = getTodayString();
+  return createDailyChallenge(getTodayString());
+}
+
+// Create a new daily challenge for any date (past days come from the archive)
+export function createDailyChallenge(date: string): DailyChallenge {
   return {
-    date: today,
-    seed: getSeedFromDate(today),
+    date,
+    seed: getSeedFromDate(date),
     played: false,
     score: 0,
     highestTier: 0,
     mergeCount: 0,
+    bestCombo: 0,
   };
 }
 
@@ -98,8 +271,8 @@ const TIER_EMOJIS = [
   '🖤', // 10: Kuromame
 ];
 
-// Generate shareable result text
-export function generateShareText(challenge: DailyChallenge): string {
+// Generate shareable result text, with the streak when there is one
+export function generateShareText(challenge: DailyChallenge, streak: number = 0): string {
   const dayNum = getDayNumber(challenge.date);
 
   // Create tier progression (show emojis up to highest tier reached)
@@ -108,10 +281,12 @@ export function generateShareText(challenge: DailyChallenge): string {
     .join('');
 
   const lines = [
-    `Mochii #${dayNum} 🍡`,
+    challenge.archive ? `Mochii #${dayNum} 🍡 (archive)` : `Mochii #${dayNum} 🍡`,
     `Score: ${challenge.score.toLocaleString()}`,
     tierProgression,
     `Merges: ${challenge.mergeCount}`,
+    ...((challenge.bestCombo ?? 0) > 1 ? [`Best combo: x${challenge.bestCombo}`] : []),
+    ...(streak > 1 ? [`🔥 ${streak}-day streak`] : []),
     '',
     'https://mochii.dev',
   ];
@@ -0,0 +1,82 @@
+// Friend groups: each has a short invite code, shared as a ?group= link, and
+// anyone with the code can join and see the group's boards. Groups live with
+// the leaderboard backend; this device just remembers which ones it's in. No
+// localStorage access at import, so the score server can share the code rules.
+
+export const GROUP_CODE_LENGTH = 6;
+
+// No 0/O or 1/I, so codes read back without mix-ups. 32 letters, so each
+// random byte maps onto it evenly.
+const GROUP_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+const GROUPS_KEY = 'mochiGroups';
+const SELECTED_GROUP_KEY = 'mochiLeaderboardGroup';
+
+export function generateGroupCode(): string {
+  return Array.from(
+    crypto.getRandomValues(new Uint8Array(GROUP_CODE_LENGTH)),
+    byte => GROUP_CODE_ALPHABET[byte % GROUP_CODE_ALPHABET.length]
+  ).join('');
+}
+
+// A code as typed or pasted (any case, spaces and dashes allowed), or null when
+// it can't be one
+export function normalizeGroupCode(input: unknown): string | null {
+  if (typeof input !== 'string') return null;
+  const code = input.toUpperCase().replace(/[\s-]/g, '');
+  if (code.length !== GROUP_CODE_LENGTH) return null;
+  return [...code].every(char => GROUP_CODE_ALPHABET.includes(char)) ? code : null;
+}
+
+// Codes of the groups this device has made or joined, oldest first
+export function loadGroups(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(GROUPS_KEY) ?? '[]') as unknown;
+    return Array.isArray(stored) ? stored.filter((code): code is string => normalizeGroupCode(code) === code) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function addGroup(code: string): string[] {
+  const groups = loadGroups();
+  if (!groups.includes(code)) {
+    groups.push(code);
+    try {
+      localStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
+    } catch {
+      // Silently fail if localStorage is not available
+    }
+  }
+  return groups;
+}
+
+// The group whose boards the leaderboard panel shows, or null for everyone's
+export function loadSelectedGroup(): string | null {
+  try {
+    const code = localStorage.getItem(SELECTED_GROUP_KEY);
+    return code && loadGroups().includes(code) ? code : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSelectedGroup(code: string | null): void {
+  try {
+    if (code) {
+      localStorage.setItem(SELECTED_GROUP_KEY, code);
+    } else {
+      localStorage.removeItem(SELECTED_GROUP_KEY);
+    }
+  } catch {
+    // Silently fail if localStorage is not available
+  }
+}
+
+// The link that joins a group: this page with ?group=CODE
+export function getGroupInviteUrl(code: string): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.searchParams.set('group', code);
+  return url.toString();
+}
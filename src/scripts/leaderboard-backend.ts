@@ -0,0 +1,217 @@
+import { createClient } from '@supabase/supabase-js';
+import type { GroupJoin, GroupResult, LeaderboardGameMode, NameCheckResult, PlayerRename, PlayerRenameResult, ScoreSubmission, ScoreSubmissionResult } from './types';
+import { generateGroupCode } from './groups';
+import { hashPlayerId } from './player';
+import type { LeaderboardEntry } from './leaderboard';
+
+// Where leaderboards are read from and finished runs sent to. leaderboard.ts
+// picks one at build time (PUBLIC_LEADERBOARD_BACKEND):
+//
+//   supabase  Read the table with the anon key; runs, renames and friend groups
+//             (and their boards) go to the score server
+//   rest      A self-hosted score server for everything (GET /leaderboard,
+//             POST /submit-score, /rename-player, /check-name, /create-group, /join-group)
+//   local     This browser only - offline play and testing, nothing is verified
+
+// One board: a mode, and a day for daily. Everyone's, or a friend group's.
+export interface LeaderboardQuery {
+  mode: LeaderboardGameMode;
+  dailyDate?: string;
+  group?: string; // Invite code
+  limit: number;
+}
+
+export interface LeaderboardBackend {
+  // Top entries, highest score first
+  fetchEntries(query: LeaderboardQuery): Promise<LeaderboardEntry[]>;
+  // Resolves with the verdict; rejects when the run should be retried later
+  submit(submission: ScoreSubmission): Promise<ScoreSubmissionResult>;
+  // Renames the player's entries on every board; rejects like submit
+  rename(rename: PlayerRename): Promise<PlayerRenameResult>;
+  // Whether that rename would go through; rejects when it couldn't be checked
+  checkName(check: PlayerRename): Promise<NameCheckResult>;
+  // Start a friend group with the player in it, or join one; reject like submit
+  createGroup(playerId: string): Promise<GroupResult>;
+  joinGroup(join: GroupJoin): Promise<GroupResult>;
+}
+
+// Answers worth asking again for: the server or a proxy in front of it failing,
+// timing out or asking us to slow down
+const RETRY_STATUSES = new Set([408, 429]);
+
+// The score server re-simulates the replay and records the score it recomputes.
+// Throws when there's no verdict (unreachable, or the server itself failed),
+// so the run can be tried again later. Any other refusal is final: the
+// server's own reason when it gave one, otherwise `refuse`'s (a proxy's error
+// page, say).
+async function postToScoreServer<T>(scoreServerUrl: string, path: string, body: unknown, refuse: (reason: string) => T): Promise<T> {
+  const response = await fetch(`${scoreServerUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (response.status >= 500 || RETRY_STATUSES.has(response.status)) throw new Error(`Score server error: ${response.status}`);
+  if (response.ok) return await response.json() as T;
+
+  try {
+    const verdict = await response.json() as { reason?: unknown } | null;
+    if (typeof verdict?.reason === 'string') return verdict as T;
+  } catch {
+    // Not the score server's answer
+  }
+  return refuse(`Refused by the score server (${response.status})`);
+}
+
+// Everything but reading boards goes through the score server, whichever backend
+function createScoreServerRequests(scoreServerUrl: string): Omit<LeaderboardBackend, 'fetchEntries'> {
+  return {
+    submit: submission => postToScoreServer(scoreServerUrl, '/submit-score', submission, reason => ({ accepted: false, reason })),
+    rename: rename => postToScoreServer(scoreServerUrl, '/rename-player', rename, reason => ({ ok: false, reason })),
+    checkName: check => postToScoreServer(scoreServerUrl, '/check-name', check, reason => ({ available: false, reason })),
+    createGroup: playerId => postToScoreServer(scoreServerUrl, '/create-group', { playerId }, reason => ({ ok: false, reason })),
+    joinGroup: join => postToScoreServer(scoreServerUrl, '/join-group', join, reason => ({ ok: false, reason })),
+  };
+}
+
+async function fetchFromScoreServer(scoreServerUrl: string, { mode, dailyDate, group, limit }: LeaderboardQuery): Promise<LeaderboardEntry[]> {
+  const params = new URLSearchParams({ mode, limit: String(limit) });
+  if (dailyDate) params.set('date', dailyDate);
+  if (group) params.set('group', group);
+  const response = await fetch(`${scoreServerUrl}/leaderboard?${params}`);
+  if (!response.ok) throw new Error(`Leaderboard request failed: ${response.status}`);
+  return await response.json() as LeaderboardEntry[];
+}
+
+export function createSupabaseBackend(url: string, anonKey: string, scoreServerUrl: string): LeaderboardBackend {
+  const supabase = createClient(url, anonKey);
+
+  return {
+    async fetchEntries({ mode, dailyDate, group, limit }) {
+      // Group membership isn't readable with the anon key - the server filters
+      if (group) {
+        return fetchFromScoreServer(scoreServerUrl, { mode, dailyDate, group, limit });
+      }
+      let query = supabase
+        .from('leaderboard')
+        .select('*')
+        .eq('game_mode', mode)
+        .order('score', { ascending: false })
+        .limit(limit);
+      if (dailyDate) {
+        query = query.eq('daily_date', dailyDate);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    ...createScoreServerRequests(scoreServerUrl),
+  };
+}
+
+export function createRestBackend(baseUrl: string): LeaderboardBackend {
+  return {
+    fetchEntries: query => fetchFromScoreServer(baseUrl, query),
+    ...createScoreServerRequests(baseUrl),
+  };
+}
+
+const LOCAL_LEADERBOARD_KEY = 'mochiLocalLeaderboard';
+const LOCAL_GROUPS_KEY = 'mochiLocalGroups';
+
+// Best score per player per board, and friend groups' members, kept in
+// `storage` (in memory only without one). Takes the replay's own score -
+// there's no server to check it. Players are kept by hashed id, like the
+// score server's table.
+export function createLocalBackend(storage: Storage | null = typeof localStorage !== 'undefined' ? localStorage : null): LeaderboardBackend {
+  let rows: LeaderboardEntry[] = [];
+  let groups: Record<string, string[]> = {}; // Members' hashed player ids by invite code
+  try {
+    rows = JSON.parse(storage?.getItem(LOCAL_LEADERBOARD_KEY) ?? '[]') as LeaderboardEntry[];
+    groups = JSON.parse(storage?.getItem(LOCAL_GROUPS_KEY) ?? '{}') as Record<string, string[]>;
+  } catch {
+    // Start empty
+  }
+
+  const isNameTaken = (name: string, storedId: string) =>
+    rows.some(row => row.player_id !== storedId && row.name.toLowerCase() === name.toLowerCase());
+
+  function save(): void {
+    try {
+      storage?.setItem(LOCAL_LEADERBOARD_KEY, JSON.stringify(rows));
+      storage?.setItem(LOCAL_GROUPS_KEY, JSON.stringify(groups));
+    } catch {
+      // Keep the in-memory copy
+    }
+  }
+
+  return {
+    async fetchEntries({ mode, dailyDate, group, limit }) {
+      const members = group ? groups[group] ?? [] : null;
+      return rows
+        .filter(row => row.game_mode === mode && (!dailyDate || row.daily_date === dailyDate))
+        .filter(row => !members || (row.player_id !== undefined && members.includes(row.player_id)))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+
+    async submit({ playerId, name, replay }) {
+      const mode: LeaderboardGameMode = replay.mode === 'daily' || replay.mode === 'rush' ? replay.mode : 'freeplay';
+      const dailyDate = replay.mode === 'daily' ? replay.dailyDate : undefined;
+      const storedId = await hashPlayerId(playerId);
+      const currentName = rows.find(row => row.player_id === storedId)?.name;
+      if (currentName === undefined && isNameTaken(name, storedId)) {
+        return { accepted: false, reason: 'Taken by another player' };
+      }
+
+      const existing = rows.find(row => row.player_id === storedId && row.game_mode === mode && row.daily_date === dailyDate);
+      if (existing) {
+        existing.score = Math.max(existing.score, replay.score);
+      } else {
+        rows.push({
+          id: String(rows.length + 1),
+          name: currentName ?? name,
+          player_id: storedId,
+          score: replay.score,
+          game_mode: mode,
+          ...(dailyDate ? { daily_date: dailyDate } : {}),
+          created_at: new Date().toISOString(),
+        });
+      }
+
+      save();
+      return { accepted: true, score: replay.score };
+    },
+
+    async rename({ playerId, name }) {
+      const storedId = await hashPlayerId(playerId);
+      if (isNameTaken(name, storedId)) return { ok: false, reason: 'Taken by another player' };
+      for (const row of rows) {
+        if (row.player_id === storedId) row.name = name;
+      }
+      save();
+      return { ok: true };
+    },
+
+    async checkName({ playerId, name }) {
+      return isNameTaken(name, await hashPlayerId(playerId)) ? { available: false, reason: 'Taken by another player' } : { available: true };
+    },
+
+    async createGroup(playerId) {
+      let code = generateGroupCode();
+      while (groups[code]) code = generateGroupCode();
+      groups[code] = [await hashPlayerId(playerId)];
+      save();
+      return { ok: true, code };
+    },
+
+    async joinGroup({ playerId, code }) {
+      const members = groups[code];
+      if (!members) return { ok: false, reason: 'No group with that code' };
+      const storedId = await hashPlayerId(playerId);
+      if (!members.includes(storedId)) members.push(storedId);
+      save();
+      return { ok: true, code };
+    },
+  };
+}
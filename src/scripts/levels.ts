@@ -0,0 +1,61 @@
+import type { LevelGoal, LevelSelectEntry, PuzzleLevel } from './types';
+import { mochiTiers } from './physics';
+
+// Puzzle levels: star ratings, goal text and the player's progress. The levels
+// themselves are JSON files in src/levels, bundled into the page by Astro.
+
+// Stars for clearing a level with this many drops (1 for any clear)
+export function getLevelStars(level: PuzzleLevel, dropsUsed: number): number {
+  const [twoStars, threeStars] = level.stars;
+  if (dropsUsed <= threeStars) return 3;
+  if (dropsUsed <= twoStars) return 2;
+  return 1;
+}
+
+// Short goal text, e.g. "Make a Matcha in 8 drops"
+export function describeGoal(goal: LevelGoal, drops: number): string {
+  const supply = `${drops} drop${drops === 1 ? '' : 's'}`;
+  switch (goal.type) {
+    case 'reachTier':
+      return `Make a ${mochiTiers[goal.tier].name} in ${supply}`;
+    case 'clearTier':
+      return `Clear all ${mochiTiers[goal.tier].name} in ${supply}`;
+    case 'score':
+      return `Score ${goal.score.toLocaleString()} in ${supply}`;
+  }
+}
+
+// LocalStorage key for puzzle progress: best stars per level id
+const LEVEL_PROGRESS_KEY = 'mochiLevelProgress';
+
+export function loadLevelProgress(): Record<string, number> {
+  try {
+    const stored = localStorage.getItem(LEVEL_PROGRESS_KEY);
+    return stored ? JSON.parse(stored) as Record<string, number> : {};
+  } catch {
+    return {};
+  }
+}
+
+// Keep the best rating for a level
+export function saveLevelStars(levelId: string, stars: number): void {
+  try {
+    const progress = loadLevelProgress();
+    if (stars > (progress[levelId] ?? 0)) {
+      progress[levelId] = stars;
+      localStorage.setItem(LEVEL_PROGRESS_KEY, JSON.stringify(progress));
+    }
+  } catch (e) {
+    console.warn('Failed to save level progress:', e);
+  }
+}
+
+// Tiles for the level-select screen - each level opens once the one before it is cleared
+export function getLevelSelectEntries(levels: PuzzleLevel[]): LevelSelectEntry[] {
+  const progress = loadLevelProgress();
+  return levels.map((level, i) => ({
+    level,
+    stars: progress[level.id] ?? 0,
+    locked: i > 0 && !progress[levels[i - 1].id],
+  }));
+}
@@ -1,23 +1,58 @@
-import type { Mochi, CanvasContext, GameState, Container, GameMode } from './types';
-import { createMochi, updateMochi, checkMochiCollision, canMerge, mochiTiers, defaultConfig, DROPPABLE_TIERS } from './physics';
-import { createCanvasContext, resizeCanvas, render, addMergeEffect, addCherryBlossoms, triggerCatWalk, updateEasterEggs, isCatWalking, initAmbientEffects, addDustPoof, MODE_TOGGLE_BOUNDS, initQualityMode, getQualityMode, setQualityMode, getQualityReason } from './renderer';
-import { initLeaderboard, getLeaderboard, getOrCreatePlayerName, submitScore, setLeaderboardMode, fetchLeaderboard } from './leaderboard';
-import { createSeededRandom, loadDailyChallenge, saveDailyChallenge, createTodayChallenge, generateShareText, copyToClipboard, getDayNumber, getTodayString } from './daily';
+import type { CanvasContext, Mochi, GameState, OnlineState, OnlineResult, Container, GameMode, Replay, ReplayViewer, ReplayControl, PuzzleLevel, HoveredButton, NameEditor, LeaderboardScope } from './types';
+import { mochiTiers, defaultConfig, getBroadphasePairCount } from './physics';
+import { createCanvasContext, resizeCanvas, render, renderVersus, getVersusLeaveButton, addMergeEffect, addComboCallout, addCherryBlossoms, triggerCatWalk, updateEasterEggs, isCatWalking, initAmbientEffects, addDustPoof, addDissolveEffect, MODE_TOGGLE_BOUNDS, MODE_TOGGLE_MODES, getLevelSelectLayout, getArchiveCalendarLayout, getNameEditorLayout, getNameEditButton, getLeaderboardTabs, type LeaderboardTab, getDailyStatsLink, getReplayControlsLayout, initQualityMode, getQualityMode, setQualityMode, getQualityReason } from './renderer';
+import { initLeaderboard, getLeaderboard, submitScore, setLeaderboardMode, fetchLeaderboard, isRankedMode, getPendingSyncCount, renamePlayer, checkPlayerName, getLeaderboardGroup, setLeaderboardGroup, createGroup, joinGroup } from './leaderboard';
+import { loadGroups, getGroupInviteUrl } from './groups';
+import { getOrCreatePlayerName, validatePlayerName, setNameBlocklist, parseNameBlocklist, MAX_NAME_LENGTH } from './player';
+import { getLevelSelectEntries, saveLevelStars } from './levels';
+import { createRandomSeed, loadDailyChallenge, saveDailyChallenge, createTodayChallenge, createDailyChallenge, loadDailyHistory, getDailyStats, getCurrentStreak, generateShareText, copyToClipboard, getDayNumber, getTodayString, isPlayableDailyDate, addMonths, setDailyRollover, type DailyRollover } from './daily';
 import type { WorkerInputMessage, WorkerOutputMessage, PhysicsEvent } from './physics-types';
-import { serializeMochi, applyPhysicsToMochi } from './physics-types';
+import { TICK_DT } from './physics-types';
+import { createWorkerDriver, postWorkerBatch, applyWorkerUpdate, type WorkerDriver } from './physics-bridge';
+import { BOARD, createSimulation, startReplayRun, continueReplayRun, dropMochi, getTicksLeft, getDropsLeft, stepSimulation, cloneSimulation } from './simulation';
+import type { Simulation, ReplayRun } from './simulation';
+import { connectToRelay, sendToRelay, disconnectFromRelay } from './online';
+import { SNAPSHOT_INTERVAL_MS, type VersusRelayMessage } from './versus-protocol';
+import { createVersusMatch, stepVersusMatch, type VersusMatch, type VersusPlayer } from './versus';
+import { createReplay, recordDrop, isValidNextDrop, finishReplay, getReplayLength, loadReplayFromUrl, loadReplayFromFile, downloadReplay, encodeReplayParam } from './replay';
 
 let context: CanvasContext;
-let mochis: Mochi[] = [];
+let sim: Simulation; // Board, score and tier sequence of the current game
 let gameState: GameState;
 let animationId: number;
 let lastTime = 0;
-let dropCooldown = 0;
 let playerName: string;
+let puzzleLevels: PuzzleLevel[] = []; // Bundled with the page, in play order
+let versus: VersusMatch | null = null; // Local two-player match, shown instead of the game above
+let versusScale = 1; // Both versus boards shrink together to fit narrow screens
+const heldKeys = new Set<string>(); // Versus aiming keys currently down
+let gamepadDropHeld = false; // Drop fires on press, not while held
+let online: OnlineState | null = null; // Online versus room, kept across rematches
+let opponentReplay: Replay | null = null; // The opponent's drops, to check their result against
+let opponentCheck: { run: ReplayRun; score: number } | null = null; // Their result, being re-simulated
+const OPPONENT_CHECK_BUDGET_MS = 4; // Re-simulation time per frame, so the check never stalls the page
+const OPPONENT_CHECK_TICKS = 10; // Ticks between looks at the clock
+let lastSnapshotTime = 0;
+let nameInput: HTMLInputElement | null = null; // Off-screen field the name editor's typing goes to
+let nameCheckTimer: ReturnType<typeof setTimeout> | null = null;
+let nameCheckId = 0; // Answers to checks of an older draft are dropped
+const NAME_CHECK_DELAY_MS = 400; // Wait for a pause in typing before asking the backend
+let playerGroups: string[] = []; // Invite codes of the friend groups this device is in
+let groupNotice: { text: string; until: number } | null = null; // Shown under the leaderboard tabs
+const GROUP_NOTICE_MS = 2500;
+
+// The daily turns over at the player's local midnight unless the build asks for
+// one worldwide UTC rollover (PUBLIC_DAILY_ROLLOVER=utc)
+const DAILY_ROLLOVER: DailyRollover = import.meta.env.PUBLIC_DAILY_ROLLOVER === 'utc' ? 'utc' : 'local';
+
+// Words player names may not contain, comma-separated (PUBLIC_NAME_BLOCKLIST).
+// The score server has its own list (NAME_BLOCKLIST) - keep them in step.
+const NAME_BLOCKLIST = parseNameBlocklist(import.meta.env.PUBLIC_NAME_BLOCKLIST);
 
 // Physics worker for off-main-thread physics simulation
 let physicsWorker: Worker | null = null;
+let workerDriver: WorkerDriver | null = null; // Our side of the worker's messages (see physics-bridge.ts)
 let useWorkerPhysics = false;
-let pendingPhysicsUpdate = false;
 
 // Performance profiling (toggle with 'P' key or 4-finger tap on mobile)
 let profilingEnabled = false;
@@ -26,6 +61,7 @@ const perfMetrics = {
   frameTime: 0,
   updateTime: 0,
   physicsTime: 0,
+  syncTime: 0,
   renderTime: 0,
   easterEggsTime: 0,
   frameCount: 0,
@@ -33,8 +69,26 @@ const perfMetrics = {
   frameTimes: [] as number[],
 };
 
-// Seeded random function for daily mode
-let seededRandom: (() => number) | null = null;
+// Fixed-step simulation clock
+let tickAccumulator = 0; // Frame time not yet consumed by whole ticks
+const MAX_TICK_BACKLOG = 3; // Frames of backlog to keep before dropping time
+
+// Next recorded drop to feed in while playing back a replay
+let replayDropIndex = 0;
+
+// Replay viewer: playback can only run forwards, so seeking back restores the
+// closest snapshot and re-simulates from there
+const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4, 8];
+const SNAPSHOT_INTERVAL_TICKS = 240; // ~2 seconds of game time
+const MERGE_LEAD_IN_TICKS = 30; // Land a little before a merge marker to watch it happen
+const SEEK_BUDGET_MS = 10; // Fast-forward time per frame so seeking stays responsive
+
+interface ReplaySnapshot {
+  sim: Simulation;
+  replayDropIndex: number;
+}
+let replaySnapshots: ReplaySnapshot[] = [];
+let fastForwarding = false; // Skip sounds and effects while seeking
 
 // Initialize physics worker (browser-only)
 function initPhysicsWorker(): void {
@@ -49,6 +103,7 @@ function initPhysicsWorker(): void {
       { type: 'module' }
     );
 
+    workerDriver = createWorkerDriver(physicsWorker);
     physicsWorker.onmessage = handleWorkerMessage;
     physicsWorker.onerror = (e) => {
       console.error('Physics worker error:', e);
@@ -59,8 +114,8 @@ function initPhysicsWorker(): void {
     // Initialize worker with config
     physicsWorker.postMessage({
       type: 'init',
-      config: defaultConfig,
-      container: gameState?.container,
+      config: sim?.config ?? defaultConfig,
+      container: BOARD,
     } satisfies WorkerInputMessage);
 
   } catch (e) {
@@ -72,48 +127,60 @@ function initPhysicsWorker(): void {
 // Handle messages from physics worker
 function handleWorkerMessage(e: MessageEvent<WorkerOutputMessage>): void {
   const message = e.data;
+  if (!workerDriver) return;
 
   if (message.type === 'ready') {
     useWorkerPhysics = true;
-    console.log('Physics worker ready');
+    workerDriver.sharedState = message.shared;
+    console.log(`Physics worker ready (${message.shared ? 'shared' : 'transferred'} state)`);
     return;
   }
 
   if (message.type === 'updated') {
-    pendingPhysicsUpdate = false;
-
     // Apply physics updates to mochis
-    const updatedMochis = message.mochis;
-    for (const serialized of updatedMochis) {
-      const mochi = mochis.find(m => m.id === serialized.id);
-      if (mochi) {
-        applyPhysicsToMochi(mochi, serialized);
-      }
-    }
+    const syncStart = profilingEnabled ? performance.now() : 0;
+    const target = applyWorkerUpdate(workerDriver, message);
+    if (profilingEnabled) perfMetrics.syncTime = performance.now() - syncStart;
 
-    // Process physics events
+    // Effects only for the board on screen
+    if (target !== sim) return;
     for (const event of message.events) {
       handlePhysicsEvent(event);
     }
+    checkRulesGameOver();
   }
 }
 
-// Handle physics events from worker
+// Turn what happened during a tick into effects, sounds and game state
+// The simulation has already applied the rules side (see applyPhysicsEvents)
 function handlePhysicsEvent(event: PhysicsEvent): void {
   switch (event.event) {
-    case 'merge': {
-      const m1 = mochis.find(m => m.id === event.m1Id);
-      const m2 = mochis.find(m => m.id === event.m2Id);
-      if (m1 && m2) {
-        handleMergeFromWorker(m1, m2, event.x, event.y, event.tier);
+    case 'merge':
+      // Update high score (replays don't count)
+      if (sim.score > gameState.highScore && !gameState.isReplay) {
+        gameState.highScore = sim.score;
+        localStorage.setItem('mochiHighScore', gameState.highScore.toString());
       }
+
+      // Add merge effect and play harmonizing merge sound based on tier
+      if (!fastForwarding) {
+        addMergeEffect(event.x, event.y, mochiTiers[event.tier].radius, mochiTiers[event.tier].color.primary);
+        playMergeSound(event.tier);
+
+        // The merge is still pending here, with the combo it scored at
+        const merge = sim.pendingMerges.find(m => m.m1.id === event.m1Id);
+        if (merge && merge.combo > 1) {
+          addComboCallout(event.x, event.y - mochiTiers[event.tier].radius, merge.combo);
+        }
+      }
+      noteReplayMerge(event.tick);
       break;
-    }
 
     case 'landed': {
-      const mochi = mochis.find(m => m.id === event.mochiId);
+      // Spawn dust poof
+      if (fastForwarding) break;
+      const mochi = sim.mochis.find(m => m.id === event.mochiId);
       if (mochi) {
-        // Trigger dust poof
         const bottomY = mochi.cy + mochi.baseRadius * 0.8;
         const intensity = Math.min(2, Math.abs(event.impactVelocity) * 0.3 + 0.5);
         addDustPoof(mochi.cx, bottomY, intensity);
@@ -122,8 +189,8 @@ function handlePhysicsEvent(event: PhysicsEvent): void {
     }
 
     case 'floorImpact': {
-      const mochi = mochis.find(m => m.id === event.mochiId);
-      if (mochi && event.impactVelocity > 5) {
+      const mochi = sim.mochis.find(m => m.id === event.mochiId);
+      if (mochi) {
         mochi.emotion = 'squished';
         mochi.emotionTimer = Math.min(20, event.impactVelocity * 2);
         mochi.impactVelocity = event.impactVelocity;
@@ -131,72 +198,86 @@ function handlePhysicsEvent(event: PhysicsEvent): void {
       break;
     }
 
+    case 'dissolve':
+      // Zen and Rush: the mochi is already off the board
+      if (!fastForwarding) {
+        addDissolveEffect(event.x, event.y, mochiTiers[event.tier].radius, mochiTiers[event.tier].color.primary);
+      }
+      break;
+
     case 'gameOver':
-      triggerGameOver();
+      triggerGameOver(event.tick);
       break;
   }
 }
 
-// Handle merge triggered by worker
-function handleMergeFromWorker(m1: Mochi, m2: Mochi, mergeX: number, mergeY: number, newTier: number): void {
-  // Add score
-  const points = mochiTiers[newTier].points;
-  gameState.score += points;
-
-  // Track stats
-  gameState.mergeCount++;
-  if (newTier > gameState.highestTierReached) {
-    gameState.highestTierReached = newTier;
-  }
-
-  // Update high score
-  if (gameState.score > gameState.highScore) {
-    gameState.highScore = gameState.score;
-    localStorage.setItem('mochiHighScore', gameState.highScore.toString());
+// A run can also end by the rules - a clock running out, a puzzle level won or
+// lost - which no physics event reports
+function checkRulesGameOver(): void {
+  if (sim.gameOver && !gameState.gameOver) {
+    triggerGameOver(sim.endedAtTick ?? sim.tick - 1);
   }
+}
 
-  // Visual effects
-  addMergeEffect(mergeX, mergeY, mochiTiers[newTier].radius, mochiTiers[newTier].color.primary);
-  playMergeSound(newTier);
-
-  // Delayed creation of new mochi
-  setTimeout(() => {
-    // Remove old mochis
-    mochis = mochis.filter(m => m !== m1 && m !== m2);
-
-    // Create new bigger mochi
-    const newMochi = createMochi(mergeX, mergeY, newTier);
-    newMochi.hasLanded = true;
-    newMochi.emotion = 'love';
-    newMochi.emotionTimer = 40;
-    newMochi.wobbleIntensity = 2;
-
-    // Give it a little upward pop
-    for (const p of newMochi.points) {
-      p.vy = -3;
-    }
-
-    mochis.push(newMochi);
-  }, 150);
+// Mirror the simulation's progress into the state the renderer reads
+function syncGameState(): void {
+  gameState.score = sim.score;
+  gameState.mergeCount = sim.mergeCount;
+  gameState.highestTierReached = sim.highestTier;
+  gameState.combo = sim.combo;
+  gameState.bestCombo = sim.bestCombo;
+  gameState.ticksLeft = getTicksLeft(sim);
+  gameState.dropsLeft = getDropsLeft(sim);
+  gameState.levelResult = sim.levelResult;
+  gameState.levelStars = sim.levelStars;
+  gameState.currentTier = sim.currentTier;
+  gameState.nextTier = sim.nextTier;
+  gameState.canDrop = sim.canDrop && gameState.dropsLeft !== 0;
 }
 
-// Trigger game over state
-function triggerGameOver(): void {
+// Trigger game over state (the game ended during `tick`)
+function triggerGameOver(tick: number): void {
   if (gameState.gameOver) return;
 
+  syncGameState();
   gameState.gameOver = true;
   // Set all mochis to celebrating
-  for (const mochi of mochis) {
+  for (const mochi of sim.mochis) {
     mochi.emotion = 'celebrating';
     mochi.emotionTimer = 99999;
   }
   // Start modal animation
   gameState.modalAnimationProgress = 0;
   gameState.displayedScore = 0;
-  // Submit score
-  if (gameState.score > 0) {
-    const dailyDate = gameState.gameMode === 'daily' ? getTodayString() : undefined;
-    submitScore(playerName, gameState.score, gameState.gameMode, dailyDate);
+  // A replay only shows its result - nothing gets submitted or saved
+  if (gameState.isReplay) {
+    if (gameState.dailyChallenge) {
+      gameState.dailyChallenge = {
+        ...gameState.dailyChallenge,
+        played: true,
+        score: gameState.score,
+        highestTier: gameState.highestTierReached,
+        mergeCount: gameState.mergeCount,
+        bestCombo: gameState.bestCombo,
+      };
+    }
+    return;
+  }
+  finishReplay(gameState.replay, tick, gameState.score);
+  // Online: our board overflowing loses the match
+  if (gameState.online?.status === 'playing') {
+    lastSnapshotTime = 0;
+    sendOnlineSnapshot();
+    finishOnlineMatch('lost');
+    sendToRelay({ type: 'result', tick, score: gameState.score });
+  }
+  // Submit score (zen and puzzle runs aren't ranked)
+  if (gameState.score > 0 && isRankedMode(gameState.gameMode)) {
+    submitScore(playerName, gameState.replay);
+  }
+  // Save puzzle progress
+  if (gameState.level && gameState.levelResult === 'won') {
+    saveLevelStars(gameState.level.id, gameState.levelStars);
   }
   // Save daily challenge result
   if (gameState.gameMode === 'daily' && gameState.dailyChallenge && !gameState.dailyChallenge.played) {
@@ -206,29 +287,22 @@ function triggerGameOver(): void {
       score: gameState.score,
       highestTier: gameState.highestTierReached,
       mergeCount: gameState.mergeCount,
+      bestCombo: gameState.bestCombo,
     };
-    saveDailyChallenge(gameState.dailyChallenge);
+    if (!gameState.dailyChallenge.archive) {
+      gameState.dailyHistory = saveDailyChallenge(gameState.dailyChallenge, gameState.replay);
+    }
   }
 }
 
 // Saved game state per mode for toggle persistence
 interface SavedModeState {
-  mochis: Mochi[];
+  sim: Simulation;
   gameState: GameState;
-  dropCooldown: number;
-  seededRandom: (() => number) | null;
+  tickAccumulator: number;
 }
 
-let savedDailyState: SavedModeState | null = null;
-let savedFreePlayState: SavedModeState | null = null;
-
-// Get a random droppable tier (uses seeded random in daily mode)
-// Accepts optional mode override for use during initGameState before gameState is assigned
-function getNextTier(mode?: GameMode): number {
-  const isDaily = mode === 'daily' || gameState?.gameMode === 'daily';
-  const rand = isDaily && seededRandom ? seededRandom() : Math.random();
-  return DROPPABLE_TIERS[Math.floor(rand * DROPPABLE_TIERS.length)];
-}
+const savedModeStates: Partial<Record<GameMode, SavedModeState>> = {};
 
 // Sound management - Pentatonic scale for gentle plop sounds
 // Higher pitch for small mochi, lower for large (reversed order)
@@ -297,19 +371,16 @@ let typedChars = '';
 const IDLE_TIMEOUT = 30000; // 30 seconds
 let wasCatWalking = false; // Track cat state for emotion reset
 
-// Track landing states for dust poof effect
-const previousLandingStates = new Map<number, boolean>();
-
 // Track 3-finger tap timing for double-tap quality toggle
 let lastThreeFingerTapTime = 0;
 
-// Fixed container size to prevent cheating
-const CONTAINER_WIDTH = 320;
-const CONTAINER_HEIGHT = 450;
+// Layout container size (matches the simulation's BOARD)
+const CONTAINER_WIDTH = BOARD.width;
+const CONTAINER_HEIGHT = BOARD.height;
 
-function createContainer(width: number, height: number): Container {
-  // Container is fixed size, just centered horizontally
-  const x = (width - CONTAINER_WIDTH) / 2;
+function createContainer(width: number, height: number, centerX: number = width / 2): Container {
+  // Container is fixed size, just centered horizontally (or around centerX)
+  const x = centerX - CONTAINER_WIDTH / 2;
 
   // On mobile/smaller screens, shift container towards bottom
   // Leave more space at top for UI, less at bottom for thumb access
@@ -329,19 +400,42 @@ function createContainer(width: number, height: number): Container {
   };
 }
 
-function initGameState(mode: GameMode = 'daily'): void {
+// Start a fresh game, or play back a recorded one when a replay is given
+// Puzzle mode plays `level`, or shows the level select without one. Daily plays
+// `dailyDate` from the archive when it's a past day.
+function initGameState(mode: GameMode = 'daily', playback?: Replay, level?: PuzzleLevel, onlineSeed?: number, dailyDate?: string): void {
+  // Any other game leaves the online room
+  if (online && (mode !== 'online' || playback)) {
+    leaveOnline();
+  }
+
   // Clear saved state for this mode since we're starting fresh
-  if (mode === 'daily') {
-    savedDailyState = null;
+  // (a replay leaves the player's own games alone)
+  if (playback) {
+    mode = playback.mode;
+    level = playback.level;
   } else {
-    savedFreePlayState = null;
+    delete savedModeStates[mode];
   }
+  const levelSelect = mode === 'puzzle' && !level ? getLevelSelectEntries(puzzleLevels) : null;
+  // Online waits in the lobby until the relay hands out the seed
+  const inLobby = mode === 'online' && !playback && onlineSeed === undefined;
 
   const container = createContainer(context.width, context.height);
 
-  // Set up seeded random for daily mode
+  // Every game is seeded: daily uses the date seed, free play a fresh one
   let dailyChallenge = null;
-  if (mode === 'daily') {
+  let seed = onlineSeed ?? createRandomSeed();
+  if (playback) {
+    seed = playback.seed;
+    if (mode === 'daily') {
+      dailyChallenge = { ...createTodayChallenge(), date: playback.dailyDate ?? getTodayString(), seed, archive: playback.archive };
+    }
+  } else if (mode === 'daily' && dailyDate && dailyDate !== getTodayString()) {
+    // A past day, fresh every time - today's saved result is left alone
+    dailyChallenge = { ...createDailyChallenge(dailyDate), archive: true };
+    seed = dailyChallenge.seed;
+  } else if (mode === 'daily') {
     // Check if already played today
     const existing = loadDailyChallenge();
     if (existing?.played) {
@@ -350,11 +444,16 @@ function initGameState(mode: GameMode = 'daily'): void {
     } else {
       // New daily challenge
       dailyChallenge = existing ?? createTodayChallenge();
-      seededRandom = createSeededRandom(dailyChallenge.seed);
     }
-  } else {
-    seededRandom = null;
+    seed = dailyChallenge.seed;
   }
+  sim = createSimulation(seed, playback?.config ?? defaultConfig, mode, level);
+  // Nothing to drop while choosing a level or waiting for an opponent, or once
+  // today's daily is done
+  sim.gameOver = (dailyChallenge?.played ?? false) || !!levelSelect || inLobby;
+  physicsWorker?.postMessage({ type: 'setConfig', config: sim.config } satisfies WorkerInputMessage);
+
+  if (gameState?.nameEditor) closeNameEditor();
 
   // Store previous night mode preference
   const wasNightMode = gameState?.nightMode ?? false;
@@ -365,10 +464,10 @@ function initGameState(mode: GameMode = 'daily'): void {
     highScore: parseInt(localStorage.getItem('mochiHighScore') || '0'),
     gameOver: dailyChallenge?.played ?? false, // Show game over if already played
     currentMochi: null,
-    currentTier: getNextTier(mode), // What player is about to drop
-    nextTier: getNextTier(mode), // What's shown in "next" preview
+    currentTier: sim.currentTier, // What player is about to drop
+    nextTier: sim.nextTier, // What's shown in "next" preview
     dropX: container.x + container.width / 2,
-    canDrop: !dailyChallenge?.played,
+    canDrop: !dailyChallenge?.played && !levelSelect && !inLobby,
     container,
     mouseX: 0,
     mouseY: 0,
@@ -392,228 +491,288 @@ function initGameState(mode: GameMode = 'daily'): void {
     // Game mode
     gameMode: mode,
     dailyChallenge,
+    archiveMonth: null,
+    dailyHistory: loadDailyHistory(),
+    dailyStats: null,
+    nameEditor: null,
+    seed,
+    replay: playback ?? createReplay(seed, mode, sim.config, dailyChallenge?.date, level, dailyChallenge?.archive),
+    isReplay: !!playback,
+    replayViewer: playback ? createReplayViewer(playback) : null,
     mergeCount: 0,
     highestTierReached: 0,
+    combo: 0,
+    bestCombo: 0,
+    ticksLeft: getTicksLeft(sim),
+    level: level ?? null,
+    nextLevel: (level && puzzleLevels[puzzleLevels.findIndex(l => l.id === level.id) + 1]) ?? null,
+    levelSelect,
+    dropsLeft: getDropsLeft(sim),
+    levelResult: null,
+    levelStars: 0,
+    online: mode === 'online' && !playback ? online : null,
   };
-  mochis = [];
-  dropCooldown = 0;
+  tickAccumulator = 0;
+  replayDropIndex = 0;
+  replaySnapshots = [];
+  fastForwarding = false;
   konamiIndex = 0;
   typedChars = '';
 
-  // Set leaderboard mode and fetch appropriate leaderboard
-  const todayDate = getTodayString();
-  setLeaderboardMode(mode, todayDate);
+  // Set leaderboard mode and fetch appropriate leaderboard (an archive day
+  // shows that day's board)
+  const boardDate = dailyChallenge?.date ?? getTodayString();
+  setLeaderboardMode(mode, boardDate);
   if (mode === 'daily') {
-    fetchLeaderboard('daily', todayDate);
-  } else {
-    fetchLeaderboard('practice');
+    fetchLeaderboard('daily', boardDate);
+  } else if (isRankedMode(mode)) {
+    fetchLeaderboard(mode);
   }
 }
 
-const DROP_COOLDOWN = 45; // Frames to wait between drops (~0.75 seconds)
-
-function dropMochi(x: number): void {
-  if (!gameState.canDrop || gameState.gameOver || dropCooldown > 0) return;
-
-  const container = gameState.container;
-  const tier = gameState.currentTier; // Use current tier for drop
-  const tierData = mochiTiers[tier];
-
-  // Clamp X within container
-  const minX = container.x + container.wallThickness + tierData.radius;
-  const maxX = container.x + container.width - container.wallThickness - tierData.radius;
-  const clampedX = Math.max(minX, Math.min(maxX, x));
-
-  // Create and drop the mochi
-  const mochi = createMochi(clampedX, container.overflowLine - 50, tier);
-  mochi.isDropping = true;
-  mochi.emotion = 'surprised';
-  mochi.emotionTimer = 12; // Brief surprised look when dropped
+// Drop the current tier at a board-space X (enters the simulation at the next tick boundary)
+function dropCurrentMochi(x: number): void {
+  const tick = sim.tick;
+  if (!dropMochi(sim, x)) return;
 
-  // Give initial downward velocity to maintain falling speed with lower gravity
-  for (const p of mochi.points) {
-    p.vy = 2;
+  if (!gameState.isReplay) {
+    recordDrop(gameState.replay, tick, x);
   }
-
-  mochis.push(mochi);
-
-  // Cycle tiers: current becomes next, next becomes new random
-  gameState.currentTier = gameState.nextTier;
-  gameState.nextTier = getNextTier();
-  gameState.canDrop = false;
-  dropCooldown = DROP_COOLDOWN;
+  if (gameState.online?.status === 'playing') {
+    sendToRelay({ type: 'drop', tick, x });
+  }
+  syncGameState();
 }
 
-function mergeMochis(m1: Mochi, m2: Mochi): void {
-  // Start merge animation
-  m1.merging = true;
-  m2.merging = true;
-  m1.mergeTimer = 1;
-  m2.mergeTimer = 1;
+// Feed recorded drops due at this tick boundary into the game
+function applyReplayDrops(): void {
+  if (!gameState.isReplay) return;
 
-  // Calculate merge position (midpoint)
-  const mergeX = (m1.cx + m2.cx) / 2;
-  const mergeY = (m1.cy + m2.cy) / 2;
-  const newTier = m1.tier + 1;
+  const { drops } = gameState.replay;
+  while (replayDropIndex < drops.length && drops[replayDropIndex][0] <= sim.tick) {
+    dropCurrentMochi(drops[replayDropIndex][1]);
+    replayDropIndex++;
+  }
+}
 
-  // Add score
-  const points = mochiTiers[newTier].points;
-  gameState.score += points;
+// Send the next batch of ticks to the worker
+function postPhysicsToWorker(): void {
+  if (!workerDriver || workerDriver.pending) return;
 
-  // Track stats for daily challenge
-  gameState.mergeCount++;
-  if (newTier > gameState.highestTierReached) {
-    gameState.highestTierReached = newTier;
-  }
+  applyReplayDrops();
 
-  // Update high score
-  if (gameState.score > gameState.highScore) {
-    gameState.highScore = gameState.score;
-    localStorage.setItem('mochiHighScore', gameState.highScore.toString());
+  // Stop the batch where the next replay drop lands
+  let ticks = Math.floor(tickAccumulator / TICK_DT);
+  const { drops } = gameState.replay;
+  if (gameState.isReplay && replayDropIndex < drops.length) {
+    ticks = Math.min(ticks, drops[replayDropIndex][0] - sim.tick);
   }
+  tickAccumulator -= postWorkerBatch(workerDriver, sim, ticks) * TICK_DT;
+}
 
-  // Add merge effect
-  addMergeEffect(mergeX, mergeY, mochiTiers[newTier].radius, mochiTiers[newTier].color.primary);
+// Main thread fallback physics (used when worker not available)
+// Runs exactly one fixed tick of the shared simulation
+function runTickMainThread(): void {
+  captureReplaySnapshot();
+  applyReplayDrops();
 
-  // Play harmonizing merge sound based on tier
-  playMergeSound(newTier);
+  for (const event of stepSimulation(sim)) {
+    handlePhysicsEvent(event);
+  }
+  checkRulesGameOver();
+}
 
-  // Delayed creation of new mochi
-  setTimeout(() => {
-    // Remove old mochis
-    mochis = mochis.filter(m => m !== m1 && m !== m2);
+// Set up playback controls for a replay
+function createReplayViewer(replay: Replay): ReplayViewer {
+  return {
+    paused: false,
+    speed: 1,
+    tick: 0,
+    endTick: getReplayLength(replay),
+    mergeTicks: [],
+    scannedTick: 0,
+    seekTarget: null,
+    mergeSearchFrom: null,
+    scrubbing: false,
+  };
+}
 
-    // Create new bigger mochi
-    const newMochi = createMochi(mergeX, mergeY, newTier);
-    newMochi.hasLanded = true;
-    newMochi.emotion = 'love';
-    newMochi.emotionTimer = 40;
-    newMochi.wobbleIntensity = 2;
+// Merges become timeline markers the first time playback reaches them
+function noteReplayMerge(tick: number): void {
+  const viewer = gameState.replayViewer;
+  if (!viewer || tick < viewer.scannedTick) return;
+  if (viewer.mergeTicks[viewer.mergeTicks.length - 1] !== tick) {
+    viewer.mergeTicks.push(tick);
+  }
+}
 
-    // Give it a little upward pop
-    for (const p of newMochi.points) {
-      p.vy = -3;
-    }
+// Save the simulation at this tick boundary
+function captureReplaySnapshot(): void {
+  if (!gameState.replayViewer || sim.tick % SNAPSHOT_INTERVAL_TICKS !== 0) return;
+  const last = replaySnapshots[replaySnapshots.length - 1];
+  if (last && last.sim.tick >= sim.tick) return;
 
-    mochis.push(newMochi);
-  }, 150);
+  replaySnapshots.push({ sim: cloneSimulation(sim), replayDropIndex });
 }
 
-function checkGameOver(): boolean {
-  // Check if any fully settled mochi is above the overflow line
-  for (const mochi of mochis) {
-    // Skip mochi that are merging, dropping, or haven't settled yet
-    if (mochi.merging || mochi.isDropping || !mochi.hasLanded) continue;
-    if (mochi.settleTimer > 0) continue; // Still in grace period
-
-    // Check if the top of the mochi is above the overflow line
-    const topY = mochi.cy - mochi.baseRadius;
-    if (topY < gameState.container.overflowLine) {
-      // Additional check: must be relatively stationary
-      const speed = Math.sqrt(mochi.vx ** 2 + mochi.vy ** 2);
-      if (speed < 2) {
-        return true;
-      }
-    }
+function restoreReplaySnapshot(snapshot: ReplaySnapshot): void {
+  sim = cloneSimulation(snapshot.sim);
+  tickAccumulator = 0;
+  replayDropIndex = snapshot.replayDropIndex;
+  syncGameState();
+
+  // Rewinding past the end un-finishes the game
+  gameState.gameOver = false;
+  gameState.hoveredButton = null;
+  if (gameState.dailyChallenge) {
+    gameState.dailyChallenge = { ...gameState.dailyChallenge, played: false };
   }
-  return false;
 }
 
-// Fixed timestep for physics stability
-const PHYSICS_DT = 0.5; // Target ~120fps physics rate
+// Jump to a tick: rewind to the closest snapshot if needed, then fast-forward
+function seekReplay(viewer: ReplayViewer, target: number): void {
+  target = Math.max(0, Math.min(viewer.endTick, Math.round(target)));
 
-// Send physics update to worker
-function postPhysicsToWorker(dt: number): void {
-  if (!physicsWorker || pendingPhysicsUpdate) return;
-
-  pendingPhysicsUpdate = true;
-  const serializedMochis = mochis.map(serializeMochi);
-
-  physicsWorker.postMessage({
-    type: 'update',
-    mochis: serializedMochis,
-    container: gameState.container,
-    dt,
-  } satisfies WorkerInputMessage);
+  let snapshot: ReplaySnapshot | undefined;
+  for (const s of replaySnapshots) {
+    if (s.sim.tick <= target) snapshot = s;
+  }
+  // Restore when going backwards, or when a snapshot saves re-simulating forwards
+  if (snapshot && (target < sim.tick || snapshot.sim.tick > sim.tick)) {
+    restoreReplaySnapshot(snapshot);
+  }
+  viewer.seekTarget = target;
 }
 
-// Main thread fallback physics (used when worker not available)
-function updatePhysicsMainThread(dt: number): void {
-  const { container } = gameState;
+function runReplayTick(viewer: ReplayViewer): void {
+  runTickMainThread();
+  viewer.scannedTick = Math.max(viewer.scannedTick, sim.tick);
+}
 
-  // Sub-stepping: run physics at consistent rate for stability
-  const numSteps = Math.ceil(dt / PHYSICS_DT);
-  const stepDt = dt / numSteps;
+// First merge marker still ahead of a tick (including its lead-in)
+function findMergeAfter(viewer: ReplayViewer, tick: number): number | undefined {
+  return viewer.mergeTicks.find(t => t - MERGE_LEAD_IN_TICKS > tick);
+}
 
-  for (let step = 0; step < numSteps; step++) {
-    // Update all mochis
-    for (const mochi of mochis) {
-      if (!mochi.merging) {
-        updateMochi(mochi, defaultConfig, container, stepDt);
+function updateReplayViewer(viewer: ReplayViewer, dt: number): void {
+  if (viewer.seekTarget !== null) {
+    // Seeking: simulate as fast as the frame budget allows, without effects
+    fastForwarding = true;
+    const start = performance.now();
+    while (viewer.seekTarget !== null && performance.now() - start < SEEK_BUDGET_MS) {
+      if (sim.tick >= viewer.seekTarget || gameState.gameOver) {
+        viewer.seekTarget = null;
+        viewer.mergeSearchFrom = null;
+        break;
       }
-    }
-
-    // Check collisions between mochis
-    for (let i = 0; i < mochis.length; i++) {
-      for (let j = i + 1; j < mochis.length; j++) {
-        checkMochiCollision(mochis[i], mochis[j]);
+      runReplayTick(viewer);
+
+      // Searching for the next merge stops at the first new marker
+      if (viewer.mergeSearchFrom !== null) {
+        const found = findMergeAfter(viewer, viewer.mergeSearchFrom);
+        if (found !== undefined) {
+          viewer.mergeSearchFrom = null;
+          seekReplay(viewer, found - MERGE_LEAD_IN_TICKS);
+        }
       }
     }
+    fastForwarding = false;
+  } else if (!viewer.paused) {
+    tickAccumulator = Math.min(tickAccumulator + dt * viewer.speed, MAX_TICK_BACKLOG * viewer.speed);
+    while (tickAccumulator >= TICK_DT && !gameState.gameOver && sim.tick < viewer.endTick) {
+      runReplayTick(viewer);
+      tickAccumulator -= TICK_DT;
+    }
+    if (gameState.gameOver || sim.tick >= viewer.endTick) {
+      viewer.paused = true;
+      tickAccumulator = 0;
+    }
   }
 
-  // Post-physics updates for fallback mode
-  for (const mochi of mochis) {
-    if (!mochi.merging) {
-      // Check for landing - spawn dust poof
-      const wasLanded = previousLandingStates.get(mochi.id) ?? false;
-      if (mochi.hasLanded && !wasLanded) {
-        const bottomY = mochi.cy + mochi.baseRadius * 0.8;
-        const intensity = Math.min(2, Math.abs(mochi.impactVelocity) * 0.3 + 0.5);
-        addDustPoof(mochi.cx, bottomY, intensity);
+  viewer.tick = sim.tick;
+}
+
+function handleReplayControl(viewer: ReplayViewer, control: ReplayControl): void {
+  switch (control) {
+    case 'playPause':
+      // Playing from the end starts over
+      if (viewer.paused && (gameState.gameOver || sim.tick >= viewer.endTick)) {
+        seekReplay(viewer, 0);
       }
-      previousLandingStates.set(mochi.id, mochi.hasLanded);
+      viewer.paused = !viewer.paused;
+      break;
 
-      // Decrement settle timer (grace period for game over)
-      if (mochi.settleTimer > 0) {
-        mochi.settleTimer -= dt;
+    case 'step':
+      viewer.paused = true;
+      if (viewer.seekTarget === null && !gameState.gameOver && sim.tick < viewer.endTick) {
+        runReplayTick(viewer);
+        viewer.tick = sim.tick;
       }
-    } else {
-      // Update merge animation
-      mochi.mergeTimer -= 0.08;
-      if (mochi.mergeTimer < 0) mochi.mergeTimer = 0;
+      break;
+
+    case 'prevMerge': {
+      // Latest merge that already happened, or the start
+      const earlier = viewer.mergeTicks.filter(t => t < sim.tick);
+      const prev = earlier[earlier.length - 1];
+      viewer.mergeSearchFrom = null;
+      seekReplay(viewer, prev !== undefined ? prev - MERGE_LEAD_IN_TICKS : 0);
+      break;
     }
-  }
 
-  // Check for merges (once per frame)
-  const mergePairs: [Mochi, Mochi][] = [];
-  for (let i = 0; i < mochis.length; i++) {
-    for (let j = i + 1; j < mochis.length; j++) {
-      const m1 = mochis[i];
-      const m2 = mochis[j];
-      if (canMerge(m1, m2)) {
-        mergePairs.push([m1, m2]);
+    case 'nextMerge': {
+      const next = findMergeAfter(viewer, sim.tick);
+      if (next !== undefined) {
+        seekReplay(viewer, next - MERGE_LEAD_IN_TICKS);
+      } else if (viewer.scannedTick < viewer.endTick) {
+        // Not played that far yet - fast-forward until one turns up
+        viewer.mergeSearchFrom = sim.tick;
+        seekReplay(viewer, viewer.endTick);
       }
+      break;
     }
-  }
 
-  // Process merges (only first one per frame to avoid conflicts)
-  if (mergePairs.length > 0) {
-    const [m1, m2] = mergePairs[0];
-    mergeMochis(m1, m2);
+    case 'speed':
+      viewer.speed = REPLAY_SPEEDS[(REPLAY_SPEEDS.indexOf(viewer.speed) + 1) % REPLAY_SPEEDS.length];
+      break;
   }
+}
 
-  // Check game over
-  if (checkGameOver()) {
-    triggerGameOver();
+function changeReplaySpeed(viewer: ReplayViewer, direction: 1 | -1): void {
+  const index = REPLAY_SPEEDS.indexOf(viewer.speed) + direction;
+  viewer.speed = REPLAY_SPEEDS[Math.max(0, Math.min(REPLAY_SPEEDS.length - 1, index))];
+}
+
+// Which replay control (or the timeline) is under a canvas point
+function getReplayControlAt(x: number, y: number): ReplayControl | 'timeline' | null {
+  if (!gameState.replayViewer) return null;
+  const layout = getReplayControlsLayout(gameState.container);
+
+  for (const button of layout.buttons) {
+    if (x >= button.x && x <= button.x + button.width && y >= button.y && y <= button.y + button.height) {
+      return button.control;
+    }
   }
+  const { timeline } = layout;
+  if (x >= timeline.x - 6 && x <= timeline.x + timeline.width + 6 &&
+      y >= timeline.y - timeline.hitPadding && y <= timeline.y + timeline.height + timeline.hitPadding) {
+    return 'timeline';
+  }
+  return null;
+}
+
+function scrubReplayTo(viewer: ReplayViewer, x: number): void {
+  const { timeline } = getReplayControlsLayout(gameState.container);
+  const fraction = Math.max(0, Math.min(1, (x - timeline.x) / timeline.width));
+  viewer.mergeSearchFrom = null;
+  seekReplay(viewer, fraction * viewer.endTick);
 }
 
 // Update animation states (runs on main thread regardless of worker)
-function updateAnimations(dt: number): void {
+function updateAnimations(dt: number, mochis: Mochi[] = sim.mochis): void {
   for (const mochi of mochis) {
     if (mochi.merging) continue;
 
-    // Update emotion based on physics state (when using worker)
+    // Update emotion based on physics state
     mochi.emotionTimer -= dt;
     if (mochi.emotionTimer <= 0) {
       const speed = Math.sqrt(mochi.vx ** 2 + mochi.vy ** 2);
@@ -719,22 +878,375 @@ function updateAnimations(dt: number): void {
   }
 }
 
+// Online versus: join a room on the relay and wait in the lobby for an opponent
+function startOnline(room: string): void {
+  online = {
+    status: 'connecting',
+    room,
+    opponentName: null,
+    ready: false,
+    opponentScore: 0,
+    opponentMochis: [],
+    result: null,
+    opponentVerified: null,
+    error: null,
+  };
+  opponentReplay = null;
+  connectToRelay(room, playerName, handleRelayMessage, handleRelayClosed);
+  initGameState('online');
+}
+
+function leaveOnline(): void {
+  online = null;
+  opponentReplay = null;
+  opponentCheck = null;
+  disconnectFromRelay();
+}
+
+function isInOnlineLobby(): boolean {
+  return gameState.online !== null && gameState.online.status !== 'playing' && !gameState.gameOver;
+}
+
+// Ask to start (or rematch) - the relay starts both players together
+function requestOnlineStart(): void {
+  if (!online || !online.opponentName || online.ready) return;
+  online.ready = true;
+  sendToRelay({ type: 'ready' });
+}
+
+function beginOnlineMatch(seed: number): void {
+  if (!online) return;
+  online.status = 'playing';
+  online.ready = false;
+  online.result = null;
+  online.opponentScore = 0;
+  online.opponentMochis = [];
+  online.opponentVerified = null;
+  opponentReplay = createReplay(seed, 'online', defaultConfig);
+  opponentCheck = null;
+  lastSnapshotTime = 0;
+  initGameState('online', undefined, undefined, seed);
+}
+
+function finishOnlineMatch(result: OnlineResult | null): void {
+  if (!online) return;
+  online.status = 'finished';
+  online.result = result;
+  online.ready = false;
+}
+
+// The match ended by something other than our own board overflowing
+function endOnlineMatch(result: OnlineResult | null): void {
+  finishOnlineMatch(result);
+  if (!gameState.gameOver) {
+    sim.gameOver = true;
+    triggerGameOver(sim.tick - 1);
+  }
+}
+
+// The opponent overflowed. Their drops, re-simulated from the shared seed, have
+// to earn the score they report - a long match takes seconds to re-simulate, so
+// that happens a little each frame (see continueOpponentCheck).
+function handleOpponentResult(tick: number, score: number): void {
+  if (!online || !opponentReplay) return;
+  // A real result comes no earlier than their last drop, with a score that's a number
+  if (!isValidNextDrop(opponentReplay, tick, score)) return;
+  finishReplay(opponentReplay, tick, score);
+  online.opponentScore = score;
+  opponentCheck = { run: startReplayRun(opponentReplay), score };
+
+  if (online.status === 'playing') {
+    endOnlineMatch('won');
+  } else if (online.result === 'lost') {
+    // Both boards overflowed - whoever went first lost
+    const ourTick = gameState.replay.endTick;
+    online.result = tick < ourTick ? 'won' : tick === ourTick ? 'draw' : 'lost';
+  }
+}
+
+function continueOpponentCheck(): void {
+  if (!opponentCheck) return;
+  const start = performance.now();
+  while (performance.now() - start < OPPONENT_CHECK_BUDGET_MS) {
+    if (continueReplayRun(opponentCheck.run, OPPONENT_CHECK_TICKS)) {
+      if (online) online.opponentVerified = opponentCheck.run.sim.score === opponentCheck.score;
+      opponentCheck = null;
+      return;
+    }
+  }
+}
+
+function handleRelayMessage(message: VersusRelayMessage): void {
+  if (!online) return;
+
+  switch (message.type) {
+    case 'joined':
+      online.status = online.opponentName ? 'lobby' : 'waiting';
+      break;
+
+    case 'opponent':
+      online.opponentName = message.name;
+      online.ready = false;
+      if (message.name === null && online.status === 'playing') {
+        endOnlineMatch('forfeit');
+      } else if (online.status !== 'finished') {
+        online.status = message.name ? 'lobby' : 'waiting';
+      }
+      break;
+
+    case 'start':
+      beginOnlineMatch(message.seed);
+      break;
+
+    case 'drop':
+      // Passed on as the opponent sent it - anything out of order or not a
+      // position would break the re-simulation
+      if (opponentReplay && isValidNextDrop(opponentReplay, message.tick, message.x)) {
+        recordDrop(opponentReplay, message.tick, message.x);
+      }
+      break;
+
+    case 'snapshot':
+      online.opponentScore = message.score;
+      online.opponentMochis = message.mochis;
+      break;
+
+    case 'result':
+      handleOpponentResult(message.tick, message.score);
+      break;
+
+    case 'error':
+      online.error = message.reason;
+      online.status = 'offline';
+      disconnectFromRelay();
+      break;
+  }
+}
+
+// Connection failed or dropped - a match in progress ends without a result
+function handleRelayClosed(): void {
+  if (!online) return;
+  if (online.status === 'playing') {
+    endOnlineMatch(null);
+  }
+  online.status = 'offline';
+  online.opponentName = null;
+  online.error ??= 'Lost connection to the relay';
+}
+
+// Our board, a few times a second, for the opponent's live view
+function sendOnlineSnapshot(): void {
+  const now = performance.now();
+  if (now - lastSnapshotTime < SNAPSHOT_INTERVAL_MS) return;
+  lastSnapshotTime = now;
+  sendToRelay({
+    type: 'snapshot',
+    tick: sim.tick,
+    score: sim.score,
+    mochis: sim.mochis.filter(m => !m.merging).map(m => [m.tier, Math.round(m.cx), Math.round(m.cy)]),
+  });
+}
+
+// Local versus: two boards side by side, centred and scaled down together when
+// the screen is too narrow for both
+const VERSUS_GAP = 40;
+
+function layoutVersus(): [Container, Container] {
+  versusScale = Math.min(1, context.width / (CONTAINER_WIDTH * 2 + VERSUS_GAP * 2));
+  const width = context.width / versusScale;
+  const height = context.height / versusScale;
+  const offset = (CONTAINER_WIDTH + VERSUS_GAP) / 2;
+  return [
+    createContainer(width, height, width / 2 - offset),
+    createContainer(width, height, width / 2 + offset),
+  ];
+}
+
+// Start (or restart) a match - the single-player game waits underneath
+function startVersus(): void {
+  versus = createVersusMatch(createRandomSeed(), layoutVersus());
+  tickAccumulator = 0;
+  heldKeys.clear();
+}
+
+function leaveVersus(): void {
+  versus = null;
+  tickAccumulator = 0;
+  heldKeys.clear();
+}
+
+// Aim a versus board at a view-space X
+function aimVersus(player: VersusPlayer, viewX: number): void {
+  player.dropX = Math.max(0, Math.min(BOARD.width, viewX - player.container.x));
+}
+
+function dropVersus(player: VersusPlayer): void {
+  if (versus?.result !== null) return;
+  dropMochi(player.sim, player.dropX);
+}
+
+// Effects and sounds for one versus board (effects go in view space)
+function handleVersusEvent(player: VersusPlayer, event: PhysicsEvent): void {
+  const { x: offsetX, y: offsetY } = player.container;
+  switch (event.event) {
+    case 'merge': {
+      addMergeEffect(offsetX + event.x, offsetY + event.y, mochiTiers[event.tier].radius, mochiTiers[event.tier].color.primary);
+      playMergeSound(event.tier);
+      const merge = player.sim.pendingMerges.find(m => m.m1.id === event.m1Id);
+      if (merge && merge.combo > 1) {
+        addComboCallout(offsetX + event.x, offsetY + event.y - mochiTiers[event.tier].radius, merge.combo);
+      }
+      break;
+    }
+
+    case 'landed': {
+      const mochi = player.sim.mochis.find(m => m.id === event.mochiId);
+      if (mochi) {
+        const intensity = Math.min(2, Math.abs(event.impactVelocity) * 0.3 + 0.5);
+        addDustPoof(offsetX + mochi.cx, offsetY + mochi.cy + mochi.baseRadius * 0.8, intensity);
+      }
+      break;
+    }
+
+    case 'floorImpact': {
+      const mochi = player.sim.mochis.find(m => m.id === event.mochiId);
+      if (mochi) {
+        mochi.emotion = 'squished';
+        mochi.emotionTimer = Math.min(20, event.impactVelocity * 2);
+        mochi.impactVelocity = event.impactVelocity;
+      }
+      break;
+    }
+  }
+}
+
+// Player 2's gamepad: left stick or d-pad aims, A drops
+function readVersusGamepad(player: VersusPlayer, dt: number): void {
+  const pad = navigator.getGamepads?.().find(p => p !== null);
+  if (!pad) return;
+
+  let axis = Math.abs(pad.axes[0] ?? 0) > 0.2 ? pad.axes[0] : 0;
+  if (pad.buttons[14]?.pressed) axis = -1;
+  if (pad.buttons[15]?.pressed) axis = 1;
+  player.dropX = Math.max(0, Math.min(BOARD.width, player.dropX + axis * 8 * dt));
+
+  const dropPressed = pad.buttons[0]?.pressed ?? false;
+  if (dropPressed && !gamepadDropHeld) {
+    dropVersus(player);
+  }
+  gamepadDropHeld = dropPressed;
+}
+
+// Versus always simulates on the main thread - the worker holds a single board
+function updateVersus(match: VersusMatch, dt: number): void {
+  const [first, second] = match.players;
+  const aimSpeed = 6 * dt;
+  if (heldKeys.has('KeyA')) first.dropX = Math.max(0, first.dropX - aimSpeed);
+  if (heldKeys.has('KeyD')) first.dropX = Math.min(BOARD.width, first.dropX + aimSpeed);
+  if (heldKeys.has('ArrowLeft')) second.dropX = Math.max(0, second.dropX - aimSpeed);
+  if (heldKeys.has('ArrowRight')) second.dropX = Math.min(BOARD.width, second.dropX + aimSpeed);
+  readVersusGamepad(second, dt);
+
+  if (match.result === null) {
+    tickAccumulator = Math.min(tickAccumulator + dt, MAX_TICK_BACKLOG);
+    while (tickAccumulator >= TICK_DT && match.result === null) {
+      const events = stepVersusMatch(match);
+      events.forEach((playerEvents, i) => {
+        for (const event of playerEvents) {
+          handleVersusEvent(match.players[i], event);
+        }
+      });
+      tickAccumulator -= TICK_DT;
+    }
+  }
+
+  for (const player of match.players) {
+    updateAnimations(dt, player.sim.mochis);
+  }
+}
+
+// Clicks and taps in versus: Leave, or a rematch once the match is over.
+// Returns whether the point was handled.
+function handleVersusTap(x: number, y: number): boolean {
+  const leave = getVersusLeaveButton(context.width / versusScale);
+  const viewX = x / versusScale;
+  const viewY = y / versusScale;
+  if (viewX >= leave.x && viewX <= leave.x + leave.width && viewY >= leave.y && viewY <= leave.y + leave.height) {
+    leaveVersus();
+    return true;
+  }
+  if (versus?.result !== null) {
+    startVersus();
+    return true;
+  }
+  return false;
+}
+
+// Touch screens: each player aims and drops on their own half of the screen
+function getVersusPlayerAt(x: number): VersusPlayer | null {
+  if (!versus) return null;
+  return versus.players[x < context.width / 2 ? 0 : 1];
+}
+
+// Versus keys: A/D + S for player 1, arrows + down for player 2, Space/Enter
+// for a rematch, Escape to leave
+function handleVersusKeyDown(e: KeyboardEvent): void {
+  if (!versus) return;
+  if (['ArrowLeft', 'ArrowRight', 'ArrowDown', 'Space'].includes(e.code)) {
+    e.preventDefault();
+  }
+  heldKeys.add(e.code);
+  if (e.repeat) return;
+
+  if (e.code === 'Escape') {
+    leaveVersus();
+  } else if (versus.result !== null && (e.code === 'Space' || e.code === 'Enter')) {
+    startVersus();
+  } else if (e.code === 'KeyS') {
+    dropVersus(versus.players[0]);
+  } else if (e.code === 'ArrowDown' || e.code === 'Enter') {
+    dropVersus(versus.players[1]);
+  }
+}
+
+function handleKeyUp(e: KeyboardEvent): void {
+  heldKeys.delete(e.code);
+}
+
 function update(dt: number): void {
-  if (gameState.gameOver) return;
+  if (versus) {
+    updateVersus(versus, dt);
+    return;
+  }
 
-  // Update drop cooldown
-  if (dropCooldown > 0) {
-    dropCooldown -= dt;
-    if (dropCooldown <= 0) {
-      gameState.canDrop = true;
+  // Replays always simulate on the main thread so they can pause, step and seek
+  if (gameState.replayViewer) {
+    updateReplayViewer(gameState.replayViewer, dt);
+    syncGameState();
+    if (!gameState.gameOver) {
+      updateAnimations(dt);
     }
+    return;
   }
 
+  // Nothing simulates behind the level select or the online lobby
+  if (gameState.gameOver || gameState.levelSelect || isInOnlineLobby()) return;
+
+  // Accumulate frame time and simulate it in whole fixed ticks
+  tickAccumulator = Math.min(tickAccumulator + dt, MAX_TICK_BACKLOG);
+
   // Run physics (worker or main thread)
   if (useWorkerPhysics && physicsWorker) {
-    postPhysicsToWorker(dt);
+    postPhysicsToWorker();
   } else {
-    updatePhysicsMainThread(dt);
+    while (tickAccumulator >= TICK_DT && !gameState.gameOver) {
+      runTickMainThread();
+      tickAccumulator -= TICK_DT;
+    }
+  }
+  syncGameState();
+  if (gameState.online?.status === 'playing') {
+    sendOnlineSnapshot();
   }
 
   // Always update animations on main thread
@@ -756,7 +1268,7 @@ function gameLoop(timestamp: number): void {
   // Check for idle - make mochi sleepy
   const idleTime = Date.now() - gameState.lastInteraction;
   if (idleTime > IDLE_TIMEOUT && !gameState.gameOver) {
-    for (const mochi of mochis) {
+    for (const mochi of sim.mochis) {
       if (mochi.emotion !== 'sleepy') {
         mochi.emotion = 'sleepy';
         mochi.emotionTimer = 999; // Keep sleepy until interaction
@@ -806,6 +1318,7 @@ function gameLoop(timestamp: number): void {
 
   const updateStart = profilingEnabled ? performance.now() : 0;
   update(dt);
+  continueOpponentCheck();
   if (profilingEnabled) perfMetrics.physicsTime = performance.now() - updateStart;
 
   const easterEggsStart = profilingEnabled ? performance.now() : 0;
@@ -816,7 +1329,7 @@ function gameLoop(timestamp: number): void {
   // Check if cat just finished walking - reset mochi emotions
   const catWalking = isCatWalking();
   if (wasCatWalking && !catWalking) {
-    for (const mochi of mochis) {
+    for (const mochi of sim.mochis) {
       if (mochi.emotion === 'surprised') {
         mochi.emotion = 'happy';
         mochi.emotionTimer = 60; // Brief happy moment before returning to normal
@@ -826,7 +1339,13 @@ function gameLoop(timestamp: number): void {
   wasCatWalking = catWalking;
 
   const renderStart = profilingEnabled ? performance.now() : 0;
-  render(context, mochis, gameState, getLeaderboard(), playerName);
+  // Zen and puzzles have no scoreboard
+  const leaderboard = isRankedMode(gameState.gameMode) ? getLeaderboard() : undefined;
+  if (versus) {
+    renderVersus(context, versus, versusScale, gameState.nightMode, gameState.mouseX, gameState.mouseY);
+  } else {
+    render(context, sim.mochis, gameState, leaderboard, playerName, getPendingSyncCount(), getLeaderboardScope());
+  }
 
   if (profilingEnabled) perfMetrics.renderTime = performance.now() - renderStart;
 
@@ -857,31 +1376,37 @@ function drawProfilingOverlay(): void {
 
   ctx.save();
   ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
-  ctx.fillRect(x - 10, y - 5, 180, 220);
+  ctx.fillRect(x - 10, y - 5, 180, 262);
 
   ctx.fillStyle = '#00ff00';
   ctx.font = '12px monospace';
   ctx.textAlign = 'left';
 
-  const workerStatus = useWorkerPhysics ? 'Worker' : 'Main';
+  const workerStatus = useWorkerPhysics ? (workerDriver?.sharedState ? 'Worker (shared)' : 'Worker') : 'Main';
   const workerColor = useWorkerPhysics ? '#00ff00' : '#ffaa00';
   const quality = getQualityMode();
   const qualityColor = quality === 'high' ? '#00ff00' : '#ffaa00';
   const reason = getQualityReason();
+  // Replays always step on the main thread
+  const pairCount = useWorkerPhysics && !gameState.replayViewer ? workerDriver?.pairCount ?? 0 : getBroadphasePairCount();
 
   const lines = [
     `FPS: ${perfMetrics.fps}`,
     `Frame: ${perfMetrics.frameTime.toFixed(2)}ms`,
     `Physics: ${perfMetrics.physicsTime.toFixed(2)}ms`,
+    `Sync: ${perfMetrics.syncTime.toFixed(2)}ms`,
     `Effects: ${perfMetrics.easterEggsTime.toFixed(2)}ms`,
     `Render: ${perfMetrics.renderTime.toFixed(2)}ms`,
-    `Mochis: ${mochis.length}`,
+    `Mochis: ${sim.mochis.length}`,
+    `Pairs: ${pairCount}/${sim.mochis.length * (sim.mochis.length - 1) / 2}`,
     `Physics: ${workerStatus}`,
     `Quality: ${quality}`,
     `Reason: ${reason}`,
     ``,
     `P/4-tap = debug`,
     `Q/3x2 = quality`,
+    `R/L = replay file/link`,
+    `V = local versus`,
   ];
 
   lines.forEach((line, i) => {
@@ -911,6 +1436,10 @@ function handleResize(): void {
   if (gameState) {
     gameState.container = createContainer(context.width, context.height);
   }
+  if (versus) {
+    const containers = layoutVersus();
+    versus.players.forEach((player, i) => player.container = containers[i]);
+  }
 }
 
 function handleMouseMove(e: MouseEvent): void {
@@ -920,11 +1449,33 @@ function handleMouseMove(e: MouseEvent): void {
   gameState.mouseY = e.clientY - rect.top;
   gameState.lastInteraction = Date.now();
 
+  // Dragging the replay timeline
+  const viewer = gameState.replayViewer;
+  if (viewer?.scrubbing) {
+    scrubReplayTo(viewer, gameState.mouseX);
+  }
+
   // Update button hover state when game over
-  if (gameState.gameOver) {
+  if (gameState.nameEditor) {
+    gameState.hoveredButton = null;
+    const target = getNameEditorTarget(gameState.mouseX, gameState.mouseY);
+    context.canvas.style.cursor = target === 'field' ? 'text' : target ? 'pointer' : 'default';
+  } else if (viewer && getReplayControlAt(gameState.mouseX, gameState.mouseY)) {
+    gameState.hoveredButton = null;
+    context.canvas.style.cursor = 'pointer';
+  } else if (isNameEditButtonAt(gameState.mouseX, gameState.mouseY) || getLeaderboardTabAt(gameState.mouseX, gameState.mouseY)) {
+    gameState.hoveredButton = null;
+    context.canvas.style.cursor = 'pointer';
+  } else if (gameState.archiveMonth) {
+    gameState.hoveredButton = null;
+    context.canvas.style.cursor = getArchiveTarget(gameState.mouseX, gameState.mouseY) ? 'pointer' : 'default';
+  } else if (gameState.gameOver) {
     gameState.hoveredButton = getHoveredButton(gameState.mouseX, gameState.mouseY);
     // Change cursor to pointer when hovering a button
     context.canvas.style.cursor = gameState.hoveredButton ? 'pointer' : 'default';
+  } else if (gameState.levelSelect) {
+    gameState.hoveredButton = null;
+    context.canvas.style.cursor = getLevelAt(gameState.mouseX, gameState.mouseY) ? 'pointer' : 'default';
   } else {
     gameState.hoveredButton = null;
     context.canvas.style.cursor = 'default';
@@ -932,7 +1483,7 @@ function handleMouseMove(e: MouseEvent): void {
 }
 
 // Check which game over button is being hovered
-function getHoveredButton(x: number, y: number): 'daily' | 'freeplay' | 'share' | null {
+function getHoveredButton(x: number, y: number): HoveredButton {
   const { container } = gameState;
 
   // Button area below container (must match renderer)
@@ -942,14 +1493,40 @@ function getHoveredButton(x: number, y: number): 'daily' | 'freeplay' | 'share'
   const btnHeight = 38;
   const buttonSpacing = 130;
 
+  // Puzzle results: Levels | Retry, plus Next once the level is won. Online:
+  // Rematch (while the opponent is still there) | Free Play.
+  if (gameState.gameMode === 'puzzle' || gameState.online) {
+    let buttons: HoveredButton[];
+    if (gameState.online) {
+      buttons = gameState.online.opponentName ? ['rematch', 'freeplay'] : ['freeplay'];
+    } else {
+      buttons = gameState.levelResult === 'won' && gameState.nextLevel ? ['levels', 'retry', 'next'] : ['levels', 'retry'];
+    }
+    const firstX = centerX - (buttons.length - 1) * buttonSpacing / 2;
+    return buttons.find((_, i) => {
+      const buttonX = firstX + i * buttonSpacing;
+      return x >= buttonX - btnWidth/2 && x <= buttonX + btnWidth/2 &&
+             y >= buttonAreaY - btnHeight/2 && y <= buttonAreaY + btnHeight/2;
+    }) ?? null;
+  }
+
   const hasShareButton = gameState.gameMode === 'daily' && !!gameState.dailyChallenge;
   const dailyAlreadyPlayed = gameState.dailyChallenge?.played === true;
 
+  // Stats pill on the daily results (hidden while the panel is open)
+  if (hasShareButton && dailyAlreadyPlayed && !gameState.dailyStats) {
+    const link = getDailyStatsLink(container);
+    if (x >= link.x && x <= link.x + link.width && y >= link.y && y <= link.y + link.height) {
+      return 'stats';
+    }
+  }
+
   if (hasShareButton) {
     if (dailyAlreadyPlayed) {
-      // Daily complete: just two buttons centered (Share | Free Play)
-      const shareX = centerX - buttonSpacing / 2;
-      const freePlayX = centerX + buttonSpacing / 2;
+      // Daily complete: Share | Archive | Free Play
+      const shareX = centerX - buttonSpacing;
+      const archiveX = centerX;
+      const freePlayX = centerX + buttonSpacing;
 
       // Check Share button
       if (x >= shareX - btnWidth/2 && x <= shareX + btnWidth/2 &&
@@ -957,6 +1534,12 @@ function getHoveredButton(x: number, y: number): 'daily' | 'freeplay' | 'share'
         return 'share';
       }
 
+      // Check Archive button
+      if (x >= archiveX - btnWidth/2 && x <= archiveX + btnWidth/2 &&
+          y >= buttonAreaY - btnHeight/2 && y <= buttonAreaY + btnHeight/2) {
+        return 'archive';
+      }
+
       // Check Free Play button
       if (x >= freePlayX - btnWidth/2 && x <= freePlayX + btnWidth/2 &&
           y >= buttonAreaY - btnHeight/2 && y <= buttonAreaY + btnHeight/2) {
@@ -1018,6 +1601,9 @@ function getHoveredButton(x: number, y: number): 'daily' | 'freeplay' | 'share'
 function handleKeyDown(e: KeyboardEvent): void {
   gameState.lastInteraction = Date.now();
 
+  // Typing a name - the name editor's input has the keys
+  if (gameState.nameEditor) return;
+
   // Toggle performance profiling with 'P' key
   if (e.key === 'p' || e.key === 'P') {
     profilingEnabled = !profilingEnabled;
@@ -1031,6 +1617,50 @@ function handleKeyDown(e: KeyboardEvent): void {
     return;
   }
 
+  // 'V' starts or leaves local versus, which takes over the keyboard while it runs
+  if ((e.key === 'v' || e.key === 'V') && !gameState.replayViewer) {
+    if (versus) {
+      leaveVersus();
+    } else {
+      startVersus();
+    }
+    return;
+  }
+  if (versus) {
+    handleVersusKeyDown(e);
+    return;
+  }
+
+  // Save this game's replay with 'R', copy a replay link with 'L'
+  if (e.key === 'r' || e.key === 'R') {
+    downloadReplay(gameState.replay);
+    return;
+  }
+  if (e.key === 'l' || e.key === 'L') {
+    const url = new URL(window.location.href);
+    url.searchParams.set('replay', encodeReplayParam(gameState.replay));
+    copyToClipboard(url.toString());
+    return;
+  }
+
+  // Replay playback: space plays/pauses, arrows jump between merges,
+  // '.' steps one tick and '[' / ']' change speed
+  const viewer = gameState.replayViewer;
+  if (viewer) {
+    const controls: Record<string, ReplayControl> = {
+      ' ': 'playPause',
+      '.': 'step',
+      ArrowLeft: 'prevMerge',
+      ArrowRight: 'nextMerge',
+    };
+    if (controls[e.key]) {
+      e.preventDefault();
+      handleReplayControl(viewer, controls[e.key]);
+    } else if (e.key === '[' || e.key === ']') {
+      changeReplaySpeed(viewer, e.key === ']' ? 1 : -1);
+    }
+  }
+
   // Konami code detection
   if (e.code === KONAMI_CODE[konamiIndex]) {
     konamiIndex++;
@@ -1063,7 +1693,7 @@ function triggerKonamiEasterEgg(): void {
   gameState.easterEggTimer = 300; // ~5 seconds
     addCherryBlossoms(context.width, context.height, 50);
   // Make all mochi show love
-  for (const mochi of mochis) {
+  for (const mochi of sim.mochis) {
     mochi.emotion = 'love';
     mochi.emotionTimer = 300;
   }
@@ -1072,7 +1702,7 @@ function triggerKonamiEasterEgg(): void {
 function triggerCatEasterEgg(): void {
   triggerCatWalk(context.width, context.height);
   // Make mochi surprised then happy
-  for (const mochi of mochis) {
+  for (const mochi of sim.mochis) {
     mochi.emotion = 'surprised';
     mochi.emotionTimer = 60;
   }
@@ -1082,24 +1712,29 @@ function triggerCatEasterEgg(): void {
 function getTogglePosition(): { toggleX: number; toggleY: number } {
   // Fixed width to match renderer (accommodates scores up to 99,999)
   const fixedScoreWidth = 140;
-  const toggleX = 20 + fixedScoreWidth + 50;
+  const toggleX = 20 + fixedScoreWidth + 70;
   const toggleY = 28;
   return { toggleX, toggleY };
 }
 
-// Check if click is on mode toggle
-function isToggleClick(clickX: number, clickY: number): boolean {
+// Mode whose segment of the toggle was clicked, or null when it was missed
+function getToggleModeAt(clickX: number, clickY: number): GameMode | null {
   const { toggleX, toggleY } = getTogglePosition();
   const halfWidth = MODE_TOGGLE_BOUNDS.width / 2;
   const halfHeight = MODE_TOGGLE_BOUNDS.height / 2;
-  return clickX >= toggleX - halfWidth && clickX <= toggleX + halfWidth &&
-         clickY >= toggleY - halfHeight && clickY <= toggleY + halfHeight;
+  if (clickX < toggleX - halfWidth || clickX > toggleX + halfWidth ||
+      clickY < toggleY - halfHeight || clickY > toggleY + halfHeight) {
+    return null;
+  }
+  const segmentWidth = MODE_TOGGLE_BOUNDS.width / MODE_TOGGLE_MODES.length;
+  const segment = Math.floor((clickX - (toggleX - halfWidth)) / segmentWidth);
+  return MODE_TOGGLE_MODES[Math.min(segment, MODE_TOGGLE_MODES.length - 1)];
 }
 
 // Check if click is on info icon (next to toggle)
 function isInfoIconClick(clickX: number, clickY: number): boolean {
   const { toggleX, toggleY } = getTogglePosition();
-  const infoX = toggleX + 48;
+  const infoX = toggleX + MODE_TOGGLE_BOUNDS.width / 2 + 13;
   const infoY = toggleY;
   const infoRadius = 20; // Generous click target
   const dx = clickX - infoX;
@@ -1110,42 +1745,41 @@ function isInfoIconClick(clickX: number, clickY: number): boolean {
 // Debounce for mode toggle to prevent double-triggering from touch + click
 let lastToggleTime = 0;
 
-// Handle mode toggle - switch between daily and free play (preserves state)
-function handleModeToggle(): void {
+// Handle mode toggle - switch between daily, free play, rush, zen and puzzles (preserves state)
+function handleModeToggle(newMode: GameMode): void {
   // Prevent rapid double-toggling (touch + click can both fire)
   const now = Date.now();
   if (now - lastToggleTime < 300) return;
   lastToggleTime = now;
 
   const currentMode = gameState.gameMode;
-  const newMode: GameMode = currentMode === 'daily' ? 'practice' : 'daily';
+  if (newMode === currentMode && !gameState.isReplay) return;
 
   // Preserve global preferences across modes
   const nightMode = gameState.nightMode;
   const soundEnabled = gameState.soundEnabled;
 
-  // Save current mode state
-  if (currentMode === 'daily') {
-    savedDailyState = { mochis, gameState, dropCooldown, seededRandom };
-  } else {
-    savedFreePlayState = { mochis, gameState, dropCooldown, seededRandom };
+  // Save current mode state (a replay, or an online match, is simply left behind)
+  if (currentMode === 'online') {
+    leaveOnline();
+  } else if (!gameState.isReplay) {
+    savedModeStates[currentMode] = { sim, gameState, tickAccumulator };
   }
 
-  // Check for saved state in target mode
-  const targetState = newMode === 'daily' ? savedDailyState : savedFreePlayState;
+  // Check for saved state in target mode. A finished daily from before
+  // midnight gives way to the new day's.
+  let targetState = savedModeStates[newMode];
+  const savedDaily = targetState?.gameState.dailyChallenge;
+  if (savedDaily?.played && !savedDaily.archive && savedDaily.date !== getTodayString()) {
+    targetState = undefined;
+  }
 
   if (targetState) {
     // Restore saved state
-    mochis = targetState.mochis;
+    sim = targetState.sim;
     gameState = targetState.gameState;
-    dropCooldown = targetState.dropCooldown;
-    seededRandom = targetState.seededRandom;
-
-    // Sync landing states to prevent false dust poofs on restore
-    previousLandingStates.clear();
-    for (const m of mochis) {
-      previousLandingStates.set(m.id, m.hasLanded);
-    }
+    physicsWorker?.postMessage({ type: 'setConfig', config: sim.config } satisfies WorkerInputMessage);
+    tickAccumulator = targetState.tickAccumulator;
 
     // Update container in case of resize
     gameState.container = createContainer(context.width, context.height);
@@ -1154,24 +1788,282 @@ function handleModeToggle(): void {
     gameState.nightMode = nightMode;
     gameState.soundEnabled = soundEnabled;
 
-    // Update leaderboard for this mode
-    const todayDate = getTodayString();
-    setLeaderboardMode(newMode, todayDate);
+    // Update leaderboard for this mode (the saved daily's own day)
+    setLeaderboardMode(newMode, gameState.dailyChallenge?.date ?? getTodayString());
   } else {
     // No saved state - initialize fresh
     initGameState(newMode);
   }
 }
 
+// Unlocked level whose tile on the level-select screen is at (x, y)
+function getLevelAt(x: number, y: number): PuzzleLevel | null {
+  const entries = gameState.levelSelect;
+  if (!entries) return null;
+  const tiles = getLevelSelectLayout(gameState.container, entries.length);
+  const index = tiles.findIndex(t => x >= t.x && x <= t.x + t.width && y >= t.y && y <= t.y + t.height);
+  return index >= 0 && !entries[index].locked ? entries[index].level : null;
+}
+
+// What's under the pointer in the daily archive: a month arrow or a playable day
+type ArchiveTarget = { month: string } | { date: string } | null;
+
+function getArchiveTarget(x: number, y: number): ArchiveTarget {
+  const month = gameState.archiveMonth;
+  if (!month) return null;
+  const layout = getArchiveCalendarLayout(gameState.container, month);
+  const isOver = (rect: { x: number; y: number; width: number; height: number } | null) =>
+    !!rect && x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+  if (isOver(layout.previous)) return { month: addMonths(month, -1) };
+  if (isOver(layout.next)) return { month: addMonths(month, 1) };
+  const day = layout.days.find(d => d.playable && isOver(d));
+  return day ? { date: day.date } : null;
+}
+
+// Pick a day to play, flip the month, or close the archive by tapping off the container
+function handleArchiveTap(x: number, y: number): void {
+  const target = getArchiveTarget(x, y);
+  const { container } = gameState;
+  if (target && 'date' in target) {
+    initGameState('daily', undefined, undefined, undefined, target.date);
+  } else if (target) {
+    gameState.archiveMonth = target.month;
+  } else if (x < container.x || x > container.x + container.width || y < container.y || y > container.y + container.height) {
+    gameState.archiveMonth = null;
+  }
+}
+
+// Player name editor, opened from the pencil on the leaderboard panel. Typing
+// goes to an off-screen input, so touch keyboards, paste and IMEs all work.
+function createNameInput(): HTMLInputElement {
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.maxLength = MAX_NAME_LENGTH;
+  input.autocomplete = 'off';
+  input.spellcheck = false;
+  input.enterKeyHint = 'done';
+  input.setAttribute('autocapitalize', 'off');
+  input.setAttribute('aria-label', 'Player name');
+  // Focusable but out of sight; 16px keeps iOS from zooming in on focus
+  input.style.cssText = 'position: fixed; left: 0; top: 0; width: 1px; height: 1px; opacity: 0; border: 0; padding: 0; font-size: 16px; pointer-events: none;';
+  input.addEventListener('input', handleNameInput);
+  input.addEventListener('keyup', handleNameInput);
+  input.addEventListener('keydown', handleNameInputKeyDown);
+  return input;
+}
+
+function openNameEditor(): void {
+  if (!nameInput) return;
+  gameState.nameEditor = { draft: playerName, caret: playerName.length, problem: null, availability: 'available', saving: false };
+  nameInput.value = playerName;
+  nameInput.focus();
+  nameInput.setSelectionRange(playerName.length, playerName.length);
+}
+
+function closeNameEditor(): void {
+  if (nameCheckTimer) clearTimeout(nameCheckTimer);
+  nameCheckTimer = null;
+  nameCheckId++;
+  gameState.nameEditor = null;
+  nameInput?.blur();
+}
+
+// Follow the input: the draft, where the caret is, and whether the name can be used
+function handleNameInput(): void {
+  const editor = gameState.nameEditor;
+  if (!editor || !nameInput) return;
+  editor.caret = nameInput.selectionStart ?? nameInput.value.length;
+  if (editor.draft === nameInput.value) return;
+  editor.draft = nameInput.value;
+  editor.problem = validatePlayerName(editor.draft);
+  scheduleNameCheck(editor);
+}
+
+// Keys typed into the name stay out of the game's own shortcuts
+function handleNameInputKeyDown(e: KeyboardEvent): void {
+  e.stopPropagation();
+  if (e.key === 'Enter') {
+    saveNameEditor();
+  } else if (e.key === 'Escape') {
+    closeNameEditor();
+  }
+}
+
+// Ask the backend whether the draft is free once typing pauses. The player's
+// own name needs no asking.
+function scheduleNameCheck(editor: NameEditor): void {
+  if (nameCheckTimer) clearTimeout(nameCheckTimer);
+  nameCheckTimer = null;
+  const checkId = ++nameCheckId;
+  if (editor.problem) return;
+  if (editor.draft.trim() === playerName) {
+    editor.availability = 'available';
+    return;
+  }
+
+  editor.availability = 'checking';
+  nameCheckTimer = setTimeout(async () => {
+    nameCheckTimer = null;
+    const result = await checkPlayerName(editor.draft);
+    if (checkId !== nameCheckId) return;
+    if (!result) {
+      editor.availability = 'unknown';
+    } else if (result.available) {
+      editor.availability = 'available';
+    } else {
+      editor.availability = 'unavailable';
+      editor.problem = result.reason;
+    }
+  }, NAME_CHECK_DELAY_MS);
+}
+
+async function saveNameEditor(): Promise<void> {
+  const editor = gameState.nameEditor;
+  if (!editor || editor.saving || editor.problem || editor.availability === 'unavailable') return;
+
+  editor.saving = true;
+  const result = await renamePlayer(editor.draft);
+  editor.saving = false;
+  if (result.ok) {
+    playerName = getOrCreatePlayerName();
+    if (gameState.nameEditor === editor) closeNameEditor();
+  } else {
+    editor.availability = 'unavailable';
+    editor.problem = result.reason;
+  }
+}
+
+// What's under the pointer in the name editor
+type NameEditorTarget = 'field' | 'cancel' | 'save' | null;
+
+function getNameEditorTarget(x: number, y: number): NameEditorTarget {
+  const layout = getNameEditorLayout(gameState.container);
+  const isOver = (rect: { x: number; y: number; width: number; height: number }) =>
+    x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+
+  if (isOver(layout.cancel)) return 'cancel';
+  if (isOver(layout.save)) return 'save';
+  return isOver(layout.field) ? 'field' : null;
+}
+
+// Save, cancel, or cancel by tapping off the container. Any other tap hands the
+// focus back to the input (touching the canvas takes it away).
+function handleNameEditorTap(x: number, y: number): void {
+  const target = getNameEditorTarget(x, y);
+  const { container } = gameState;
+  if (target === 'cancel' || x < container.x || x > container.x + container.width || y < container.y || y > container.y + container.height) {
+    closeNameEditor();
+    return;
+  }
+  nameInput?.focus();
+  if (target === 'save') {
+    saveNameEditor();
+  }
+}
+
+// Friend groups: the tabs on the leaderboard panel switch between everyone's
+// boards and a group's, start a group or copy its invite link
+function getLeaderboardScope(): LeaderboardScope {
+  const notice = groupNotice && groupNotice.until > Date.now() ? groupNotice.text : null;
+  return { groups: playerGroups, group: getLeaderboardGroup(), notice };
+}
+
+function showGroupNotice(text: string): void {
+  groupNotice = { text, until: Date.now() + GROUP_NOTICE_MS };
+}
+
+function getLeaderboardTabAt(x: number, y: number): LeaderboardTab | null {
+  if (!isRankedMode(gameState.gameMode) || gameState.nameEditor) return null;
+  return getLeaderboardTabs(context, gameState.container, getLeaderboardScope())
+    .find(tab => x >= tab.x && x <= tab.x + tab.width && y >= tab.y && y <= tab.y + tab.height) ?? null;
+}
+
+function handleLeaderboardTab(tab: LeaderboardTab): void {
+  const current = getLeaderboardGroup();
+  if (tab.kind === 'global') {
+    setLeaderboardGroup(null);
+  } else if (tab.kind === 'group') {
+    // Tapping the group being shown moves on to the next one
+    const next = tab.active ? playerGroups[(playerGroups.indexOf(tab.label) + 1) % playerGroups.length] : tab.label;
+    if (next !== current) setLeaderboardGroup(next);
+  } else if (tab.kind === 'invite' && current) {
+    copyToClipboard(getGroupInviteUrl(current));
+    showGroupNotice('Invite link copied');
+  } else if (tab.kind === 'create') {
+    showGroupNotice('Starting a group…');
+    createGroup().then(result => {
+      if (result.ok) {
+        playerGroups = loadGroups();
+        copyToClipboard(getGroupInviteUrl(result.code));
+        showGroupNotice('Invite link copied');
+      } else {
+        showGroupNotice(result.reason);
+      }
+    });
+  }
+}
+
+async function joinGroupFromLink(code: string): Promise<void> {
+  const result = await joinGroup(code);
+  if (result.ok) {
+    playerGroups = loadGroups();
+    showGroupNotice(`Joined group ${result.code}`);
+  } else {
+    showGroupNotice(result.reason);
+  }
+}
+
+function isNameEditButtonAt(x: number, y: number): boolean {
+  const button = isRankedMode(gameState.gameMode) ? getNameEditButton(context, gameState) : null;
+  return !!button && x >= button.x && x <= button.x + button.width && y >= button.y && y <= button.y + button.height;
+}
+
+// Puzzle results buttons - returns whether the button was one of them
+function handleLevelButton(button: HoveredButton): boolean {
+  const { level } = gameState;
+  if (button === 'levels') {
+    initGameState('puzzle');
+  } else if (button === 'retry' && level) {
+    initGameState('puzzle', undefined, level);
+  } else if (button === 'next' && gameState.nextLevel) {
+    initGameState('puzzle', undefined, gameState.nextLevel);
+  } else {
+    return false;
+  }
+  return true;
+}
+
 function handleClick(e: MouseEvent): void {
   const rect = context.canvas.getBoundingClientRect();
   const x = e.clientX - rect.left;
   const y = e.clientY - rect.top;
   gameState.lastInteraction = Date.now();
 
+  if (versus) {
+    handleVersusTap(x, y);
+    return;
+  }
+
+  // The name editor keeps every click until it's closed
+  if (gameState.nameEditor) {
+    handleNameEditorTap(x, y);
+    return;
+  }
+
   // Check for mode toggle click (top left area) - works even in game over
-  if (isToggleClick(x, y)) {
-    handleModeToggle();
+  const toggleMode = getToggleModeAt(x, y);
+  if (toggleMode) {
+    handleModeToggle(toggleMode);
+    return;
+  }
+
+  // Replay controls sit on top of the board (the timeline is handled on mousedown)
+  const replayControl = getReplayControlAt(x, y);
+  if (gameState.replayViewer && replayControl) {
+    if (replayControl !== 'timeline') {
+      handleReplayControl(gameState.replayViewer, replayControl);
+    }
     return;
   }
 
@@ -1201,13 +2093,13 @@ function handleClick(e: MouseEvent): void {
     gameState.nightMode = !gameState.nightMode;
     if (gameState.nightMode) {
       // Make mochi sleepy in night mode
-      for (const mochi of mochis) {
+      for (const mochi of sim.mochis) {
         mochi.emotion = 'sleepy';
         mochi.emotionTimer = 120;
       }
     } else {
       // Wake up! Happy mochi in day mode
-      for (const mochi of mochis) {
+      for (const mochi of sim.mochis) {
         mochi.emotion = 'happy';
         mochi.emotionTimer = 90;
       }
@@ -1215,12 +2107,39 @@ function handleClick(e: MouseEvent): void {
     return;
   }
 
+  if (isNameEditButtonAt(x, y)) {
+    openNameEditor();
+    return;
+  }
+
+  const leaderboardTab = getLeaderboardTabAt(x, y);
+  if (leaderboardTab) {
+    handleLeaderboardTab(leaderboardTab);
+    return;
+  }
+
+  if (gameState.archiveMonth) {
+    handleArchiveTap(x, y);
+    return;
+  }
+
   if (gameState.gameOver) {
     const { container } = gameState;
     const dailyAlreadyPlayed = gameState.dailyChallenge?.played === true;
 
     // Check if a button was clicked (use same logic as getHoveredButton)
     const hoveredBtn = getHoveredButton(x, y);
+    if (handleLevelButton(hoveredBtn)) return;
+
+    if (hoveredBtn === 'archive') {
+      gameState.archiveMonth = (gameState.dailyChallenge?.date ?? getTodayString()).slice(0, 7);
+      return;
+    }
+
+    if (hoveredBtn === 'stats') {
+      gameState.dailyStats = getDailyStats(gameState.dailyHistory);
+      return;
+    }
 
     if (hoveredBtn === 'daily') {
       initGameState('daily');
@@ -1228,7 +2147,8 @@ function handleClick(e: MouseEvent): void {
     }
 
     if (hoveredBtn === 'share' && gameState.dailyChallenge) {
-      const shareText = generateShareText(gameState.dailyChallenge);
+      const streak = gameState.dailyChallenge.archive ? 0 : getCurrentStreak(gameState.dailyHistory);
+      const shareText = generateShareText(gameState.dailyChallenge, streak);
       copyToClipboard(shareText);
       gameState.shareCopiedTimer = 90; // ~1.5 seconds at 60fps
       return;
@@ -1239,16 +2159,26 @@ function handleClick(e: MouseEvent): void {
       return;
     }
 
+    if (hoveredBtn === 'rematch') {
+      requestOnlineStart();
+      return;
+    }
+
     // Click on the container overlay area -> restart game
     const isOnContainer = x >= container.x && x <= container.x + container.width &&
                           y >= container.y && y <= container.y + container.height;
 
     if (isOnContainer) {
-      // If daily is complete, go to free play; otherwise restart current mode
-      if (dailyAlreadyPlayed) {
+      // Back from the stats panel. If daily is complete, go to free play;
+      // otherwise restart current mode (and level)
+      if (gameState.dailyStats) {
+        gameState.dailyStats = null;
+      } else if (dailyAlreadyPlayed) {
         initGameState('practice');
+      } else if (gameState.online) {
+        requestOnlineStart();
       } else {
-        initGameState(gameState.gameMode);
+        initGameState(gameState.gameMode, undefined, gameState.level ?? undefined);
       }
       return;
     }
@@ -1256,7 +2186,40 @@ function handleClick(e: MouseEvent): void {
     return;
   }
 
-  dropMochi(x);
+  if (gameState.levelSelect) {
+    const level = getLevelAt(x, y);
+    if (level) initGameState('puzzle', undefined, level);
+    return;
+  }
+
+  if (isInOnlineLobby()) {
+    requestOnlineStart();
+    return;
+  }
+
+  if (!gameState.isReplay) {
+    dropCurrentMochi(x - gameState.container.x);
+  }
+}
+
+// Pressing on the replay timeline starts scrubbing
+function handleMouseDown(e: MouseEvent): void {
+  const viewer = gameState.replayViewer;
+  if (!viewer || gameState.nameEditor) return;
+
+  const rect = context.canvas.getBoundingClientRect();
+  const x = e.clientX - rect.left;
+  const y = e.clientY - rect.top;
+  if (getReplayControlAt(x, y) === 'timeline') {
+    viewer.scrubbing = true;
+    scrubReplayTo(viewer, x);
+  }
+}
+
+function handleMouseUp(): void {
+  if (gameState.replayViewer) {
+    gameState.replayViewer.scrubbing = false;
+  }
 }
 
 function handleTouchStart(e: TouchEvent): void {
@@ -1284,14 +2247,39 @@ function handleTouchStart(e: TouchEvent): void {
     }
     return;
   }
+
+  // Touching the replay timeline starts scrubbing
+  const viewer = gameState.replayViewer;
+  if (viewer && !gameState.nameEditor && e.touches.length === 1) {
+    const rect = context.canvas.getBoundingClientRect();
+    const x = e.touches[0].clientX - rect.left;
+    const y = e.touches[0].clientY - rect.top;
+    if (getReplayControlAt(x, y) === 'timeline') {
+      e.preventDefault();
+      viewer.scrubbing = true;
+      scrubReplayTo(viewer, x);
+    }
+  }
 }
 
 function handleTouchMove(e: TouchEvent): void {
   e.preventDefault();
   gameState.lastInteraction = Date.now();
+  if (versus) {
+    const rect = context.canvas.getBoundingClientRect();
+    for (const touch of e.changedTouches) {
+      const x = touch.clientX - rect.left;
+      const player = getVersusPlayerAt(x);
+      if (player) aimVersus(player, x / versusScale);
+    }
+    return;
+  }
   if (e.touches.length > 0) {
     const rect = context.canvas.getBoundingClientRect();
     gameState.dropX = e.touches[0].clientX - rect.left;
+    if (gameState.replayViewer?.scrubbing) {
+      scrubReplayTo(gameState.replayViewer, gameState.dropX);
+    }
   }
 }
 
@@ -1305,16 +2293,51 @@ function handleTouchEnd(e: TouchEvent): void {
   const x = touch ? touch.clientX - rect.left : gameState.dropX;
   const y = touch ? touch.clientY - rect.top : 0;
 
+  // Versus: each lifted finger drops on its own half
+  if (versus) {
+    if (handleVersusTap(x, y)) return;
+    for (const lifted of e.changedTouches) {
+      const liftedX = lifted.clientX - rect.left;
+      const player = getVersusPlayerAt(liftedX);
+      if (player) {
+        aimVersus(player, liftedX / versusScale);
+        dropVersus(player);
+      }
+    }
+    return;
+  }
+
+  // The name editor keeps every tap until it's closed
+  if (gameState.nameEditor) {
+    handleNameEditorTap(x, y);
+    return;
+  }
+
   // Check for mode toggle tap (top left area) - works even in game over
-  if (isToggleClick(x, y)) {
-    handleModeToggle();
+  const toggleMode = getToggleModeAt(x, y);
+  if (toggleMode) {
+    handleModeToggle(toggleMode);
+    return;
+  }
+
+  // Finish scrubbing, or tap a replay control
+  const viewer = gameState.replayViewer;
+  if (viewer?.scrubbing) {
+    viewer.scrubbing = false;
+    return;
+  }
+  const replayControl = getReplayControlAt(x, y);
+  if (viewer && replayControl) {
+    if (replayControl !== 'timeline') {
+      handleReplayControl(viewer, replayControl);
+    }
     return;
   }
 
   // Check for info icon tap (shows tooltip) - larger tap target for mobile
   {
     const { toggleX, toggleY } = getTogglePosition();
-    const infoIconX = toggleX + 48;
+    const infoIconX = toggleX + MODE_TOGGLE_BOUNDS.width / 2 + 13;
     const infoIconY = toggleY;
     const dxInfo = x - infoIconX;
     const dyInfo = y - infoIconY;
@@ -1343,12 +2366,12 @@ function handleTouchEnd(e: TouchEvent): void {
   if (Math.sqrt(dxMoon * dxMoon + dyMoon * dyMoon) < 40) { // Larger tap target for mobile
     gameState.nightMode = !gameState.nightMode;
     if (gameState.nightMode) {
-      for (const mochi of mochis) {
+      for (const mochi of sim.mochis) {
         mochi.emotion = 'sleepy';
         mochi.emotionTimer = 120;
       }
     } else {
-      for (const mochi of mochis) {
+      for (const mochi of sim.mochis) {
         mochi.emotion = 'happy';
         mochi.emotionTimer = 90;
       }
@@ -1356,12 +2379,39 @@ function handleTouchEnd(e: TouchEvent): void {
     return;
   }
 
+  if (isNameEditButtonAt(x, y)) {
+    openNameEditor();
+    return;
+  }
+
+  const leaderboardTab = getLeaderboardTabAt(x, y);
+  if (leaderboardTab) {
+    handleLeaderboardTab(leaderboardTab);
+    return;
+  }
+
+  if (gameState.archiveMonth) {
+    handleArchiveTap(x, y);
+    return;
+  }
+
   if (gameState.gameOver) {
     const { container } = gameState;
     const dailyAlreadyPlayed = gameState.dailyChallenge?.played === true;
 
     // Check if a button was tapped (use same logic as getHoveredButton)
     const hoveredBtn = getHoveredButton(x, y);
+    if (handleLevelButton(hoveredBtn)) return;
+
+    if (hoveredBtn === 'archive') {
+      gameState.archiveMonth = (gameState.dailyChallenge?.date ?? getTodayString()).slice(0, 7);
+      return;
+    }
+
+    if (hoveredBtn === 'stats') {
+      gameState.dailyStats = getDailyStats(gameState.dailyHistory);
+      return;
+    }
 
     if (hoveredBtn === 'daily') {
       initGameState('daily');
@@ -1369,7 +2419,8 @@ function handleTouchEnd(e: TouchEvent): void {
     }
 
     if (hoveredBtn === 'share' && gameState.dailyChallenge) {
-      const shareText = generateShareText(gameState.dailyChallenge);
+      const streak = gameState.dailyChallenge.archive ? 0 : getCurrentStreak(gameState.dailyHistory);
+      const shareText = generateShareText(gameState.dailyChallenge, streak);
       copyToClipboard(shareText);
       gameState.shareCopiedTimer = 90; // ~1.5 seconds at 60fps
       return;
@@ -1380,26 +2431,68 @@ function handleTouchEnd(e: TouchEvent): void {
       return;
     }
 
+    if (hoveredBtn === 'rematch') {
+      requestOnlineStart();
+      return;
+    }
+
     // Tap on the container overlay area -> restart game
     const isOnContainer = x >= container.x && x <= container.x + container.width &&
                           y >= container.y && y <= container.y + container.height;
 
     if (isOnContainer) {
-      // If daily is complete, go to free play; otherwise restart current mode
-      if (dailyAlreadyPlayed) {
+      // Back from the stats panel. If daily is complete, go to free play;
+      // otherwise restart current mode (and level)
+      if (gameState.dailyStats) {
+        gameState.dailyStats = null;
+      } else if (dailyAlreadyPlayed) {
         initGameState('practice');
+      } else if (gameState.online) {
+        requestOnlineStart();
       } else {
-        initGameState(gameState.gameMode);
+        initGameState(gameState.gameMode, undefined, gameState.level ?? undefined);
       }
       return;
     }
 
     return;
   }
-  dropMochi(gameState.dropX);
+
+  if (gameState.levelSelect) {
+    const level = getLevelAt(x, y);
+    if (level) initGameState('puzzle', undefined, level);
+    return;
+  }
+
+  if (isInOnlineLobby()) {
+    requestOnlineStart();
+    return;
+  }
+
+  if (!gameState.isReplay) {
+    dropCurrentMochi(gameState.dropX - gameState.container.x);
+  }
+}
+
+// Dropping a replay .json onto the page plays it back
+function handleDragOver(e: DragEvent): void {
+  e.preventDefault();
 }
 
-export function init(canvas: HTMLCanvasElement): () => void {
+async function handleFileDrop(e: DragEvent): Promise<void> {
+  e.preventDefault();
+  const file = e.dataTransfer?.files[0];
+  if (!file) return;
+
+  const replay = await loadReplayFromFile(file);
+  if (replay) {
+    initGameState(replay.mode, replay);
+  } else {
+    console.warn('Not a playable Mochii replay:', file.name);
+  }
+}
+
+export function init(canvas: HTMLCanvasElement, levels: PuzzleLevel[] = []): () => void {
   // Browser-only check
   if (typeof window === 'undefined') {
     return () => {};
@@ -1408,9 +2501,16 @@ export function init(canvas: HTMLCanvasElement): () => void {
   context = createCanvasContext(canvas);
   resizeCanvas(context);
 
+  puzzleLevels = levels;
+  setDailyRollover(DAILY_ROLLOVER);
+  setNameBlocklist(NAME_BLOCKLIST);
+
   // Initialize leaderboard and player
   playerName = getOrCreatePlayerName();
-  initLeaderboard();
+  const closeLeaderboard = initLeaderboard();
+  nameInput = createNameInput();
+  document.body.appendChild(nameInput);
+  playerGroups = loadGroups();
 
   // Detect device capabilities and set quality mode
   initQualityMode();
@@ -1418,7 +2518,31 @@ export function init(canvas: HTMLCanvasElement): () => void {
   // Initialize ambient effects (particles, fireflies, rain)
   initAmbientEffects(context.width, context.height);
 
-  initGameState();
+  // A ?replay= link plays that game back instead of starting a new one,
+  // ?room= joins that online versus room and ?date= plays that day's daily
+  const urlReplay = loadReplayFromUrl();
+  const room = new URLSearchParams(window.location.search).get('room');
+  const date = new URLSearchParams(window.location.search).get('date');
+  if (urlReplay) {
+    initGameState(urlReplay.mode, urlReplay);
+  } else if (room) {
+    startOnline(room);
+  } else if (date && isPlayableDailyDate(date)) {
+    initGameState('daily', undefined, undefined, undefined, date);
+  } else {
+    initGameState();
+  }
+
+  // ?group= joins that friend group and shows its boards
+  const groupCode = new URLSearchParams(window.location.search).get('group');
+  if (groupCode) {
+    joinGroupFromLink(groupCode);
+  }
+
+  // ?versus opens straight into local versus (the way in without a keyboard)
+  if (new URLSearchParams(window.location.search).has('versus')) {
+    startVersus();
+  }
 
   // Initialize physics worker (for better mobile performance)
   initPhysicsWorker();
@@ -1426,11 +2550,16 @@ export function init(canvas: HTMLCanvasElement): () => void {
   // Event listeners
   window.addEventListener('resize', handleResize);
   window.addEventListener('keydown', handleKeyDown);
+  window.addEventListener('keyup', handleKeyUp);
   canvas.addEventListener('mousemove', handleMouseMove);
   canvas.addEventListener('click', handleClick);
+  canvas.addEventListener('mousedown', handleMouseDown);
+  window.addEventListener('mouseup', handleMouseUp);
   canvas.addEventListener('touchstart', handleTouchStart, { passive: false });
   canvas.addEventListener('touchmove', handleTouchMove, { passive: false });
   canvas.addEventListener('touchend', handleTouchEnd, { passive: false });
+  window.addEventListener('dragover', handleDragOver);
+  window.addEventListener('drop', handleFileDrop);
 
   // Start game loop
   lastTime = performance.now();
@@ -1441,17 +2570,28 @@ export function init(canvas: HTMLCanvasElement): () => void {
     cancelAnimationFrame(animationId);
     window.removeEventListener('resize', handleResize);
     window.removeEventListener('keydown', handleKeyDown);
+    window.removeEventListener('keyup', handleKeyUp);
     canvas.removeEventListener('mousemove', handleMouseMove);
     canvas.removeEventListener('click', handleClick);
+    canvas.removeEventListener('mousedown', handleMouseDown);
+    window.removeEventListener('mouseup', handleMouseUp);
     canvas.removeEventListener('touchstart', handleTouchStart);
     canvas.removeEventListener('touchmove', handleTouchMove);
     canvas.removeEventListener('touchend', handleTouchEnd);
+    window.removeEventListener('dragover', handleDragOver);
+    window.removeEventListener('drop', handleFileDrop);
+    leaveOnline();
+    closeLeaderboard();
+    closeNameEditor();
+    nameInput?.remove();
+    nameInput = null;
     // Terminate physics worker
     if (physicsWorker) {
       physicsWorker.terminate();
       physicsWorker = null;
+      workerDriver = null;
       useWorkerPhysics = false;
     }
-    mochis = [];
+    sim.mochis = [];
   };
 }
@@ -0,0 +1,55 @@
+import type { VersusClientMessage, VersusRelayMessage } from './versus-protocol';
+
+// Online versus: the WebSocket to the versus relay (see server/versus-relay.ts).
+// One connection per page; the match itself is run by mochi.ts.
+
+const VERSUS_RELAY_URL: string = import.meta.env.PUBLIC_VERSUS_RELAY_URL ?? 'ws://localhost:8788';
+
+let socket: WebSocket | null = null;
+
+// Join a room. `onClose` fires once if the connection fails or drops.
+export function connectToRelay(
+  room: string,
+  name: string,
+  onMessage: (message: VersusRelayMessage) => void,
+  onClose: () => void,
+): void {
+  disconnectFromRelay();
+
+  let ws: WebSocket;
+  try {
+    ws = new WebSocket(VERSUS_RELAY_URL);
+  } catch (e) {
+    console.warn('Failed to connect to versus relay:', e);
+    onClose();
+    return;
+  }
+  socket = ws;
+
+  ws.onopen = () => sendToRelay({ type: 'join', room, name });
+  ws.onmessage = (e: MessageEvent<string>) => {
+    try {
+      onMessage(JSON.parse(e.data) as VersusRelayMessage);
+    } catch (error) {
+      console.warn('Bad message from versus relay:', error);
+    }
+  };
+  ws.onclose = () => {
+    // A connection we replaced or closed ourselves goes quietly
+    if (socket !== ws) return;
+    socket = null;
+    onClose();
+  };
+}
+
+export function sendToRelay(message: VersusClientMessage): void {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+export function disconnectFromRelay(): void {
+  const ws = socket;
+  socket = null;
+  ws?.close();
+}
@@ -0,0 +1,185 @@
+// Both ends of the physics worker's conversation with the game. The worker keeps
+// its own copy of the board; the main thread only tells it about mochis
+// appearing and disappearing, sends batches of ticks, and applies the packed
+// state and events that come back. No DOM or Worker access, so the parity test
+// drives exactly what the game and physics-worker.ts run.
+
+import type { PhysicsConfig, Container } from './types';
+import type { SerializedMochi, OverflowRule, WorkerInputMessage, WorkerOutputMessage } from './physics-types';
+import { serializeMochi, getBoardStateLength, writeBoardState, applyBoardState } from './physics-types';
+import { defaultConfig, runPhysicsTicks, getBroadphasePairCount } from './physics';
+import { applyPhysicsEvents, getBatchLimit, completeDueMerges, advanceDropCooldown, type Simulation } from './simulation';
+
+export type WorkerUpdate = Extract<WorkerOutputMessage, { type: 'updated' }>;
+
+// Where messages go: the Worker on the main thread, the worker's own scope inside it
+export interface MessageTarget<T> {
+  postMessage(message: T, transfer: Transferable[]): void;
+}
+
+// --- Worker side ---
+
+const MIN_STATE_LENGTH = 8192; // Room for a typical full board
+
+// The worker's board and message handling. With `shared`, state goes back in
+// two SharedArrayBuffers the worker alternates between; otherwise buffers are
+// transferred back and forth, so nothing is copied either way.
+export function createWorkerBoard(main: MessageTarget<WorkerOutputMessage>, shared: boolean): (message: WorkerInputMessage) => void {
+  let config: PhysicsConfig = defaultConfig;
+  let container: Container | null = null;
+  let mochis: SerializedMochi[] = [];
+  let overflow: OverflowRule = 'gameOver';
+  let sharedStates: Float64Array[] = [];
+  let sharedSlot = 0;
+  let spareState: Float64Array | null = null; // Returned by the main thread for reuse
+
+  function getStateBuffer(length: number): Float64Array {
+    const capacity = Math.max(MIN_STATE_LENGTH, length * 2);
+
+    if (shared) {
+      if (sharedStates.length === 0 || sharedStates[0].length < length) {
+        sharedStates = [0, 1].map(() => new Float64Array(new SharedArrayBuffer(capacity * Float64Array.BYTES_PER_ELEMENT)));
+      }
+      sharedSlot = 1 - sharedSlot;
+      return sharedStates[sharedSlot];
+    }
+
+    const state = spareState && spareState.length >= length ? spareState : new Float64Array(capacity);
+    spareState = null;
+    return state;
+  }
+
+  return message => {
+    switch (message.type) {
+      case 'init':
+        config = message.config;
+        container = message.container;
+        main.postMessage({ type: 'ready', shared }, []);
+        break;
+
+      case 'setConfig':
+        config = message.config;
+        break;
+
+      case 'load':
+        mochis = message.mochis;
+        overflow = message.overflow;
+        break;
+
+      case 'drop':
+      case 'add':
+        mochis.push(message.mochi);
+        break;
+
+      case 'remove':
+        mochis = mochis.filter(m => m.id !== message.mochiId);
+        break;
+
+      case 'update': {
+        if (message.recycle) spareState = message.recycle;
+        if (!container) break;
+        const events = runPhysicsTicks(mochis, config, container, message.startTick, message.ticks, overflow);
+        const state = getStateBuffer(getBoardStateLength(mochis));
+        const length = writeBoardState(mochis, state);
+        main.postMessage(
+          { type: 'updated', state, length, events, pairs: getBroadphasePairCount() },
+          shared ? [] : [state.buffer as ArrayBuffer],
+        );
+        break;
+      }
+    }
+  };
+}
+
+// --- Main thread side ---
+
+export interface WorkerDriver {
+  worker: MessageTarget<WorkerInputMessage>;
+  sim: Simulation | null; // The board the worker holds a copy of
+  mochiIds: Set<number>; // Mochis the worker has been sent
+  pending: boolean; // A batch is out and hasn't come back yet
+  sharedState: boolean; // State arrives in SharedArrayBuffers (cross-origin isolated)
+  recycledState: Float64Array | null; // Transferred state buffer to hand back
+  pairCount: number; // Broadphase pairs in the worker's last tick
+}
+
+export function createWorkerDriver(worker: MessageTarget<WorkerInputMessage>): WorkerDriver {
+  return {
+    worker,
+    sim: null,
+    mochiIds: new Set(),
+    pending: false,
+    sharedState: false,
+    recycledState: null,
+    pairCount: 0,
+  };
+}
+
+// Bring the worker's copy of the board up to date: the whole board after a new
+// game or mode switch, otherwise just the mochis dropped, merged in, merged away
+// or dissolved since the last batch. New mochis are always appended, so both copies keep the
+// same order.
+export function syncWorkerBoard(driver: WorkerDriver, sim: Simulation): void {
+  const { worker } = driver;
+  if (driver.sim !== sim) {
+    driver.sim = sim;
+    driver.mochiIds = new Set(sim.mochis.map(m => m.id));
+    worker.postMessage({ type: 'load', mochis: sim.mochis.map(serializeMochi), overflow: sim.rules.overflow }, []);
+    return;
+  }
+
+  const current = new Set(sim.mochis.map(m => m.id));
+  for (const id of driver.mochiIds) {
+    if (!current.has(id)) {
+      worker.postMessage({ type: 'remove', mochiId: id }, []);
+    }
+  }
+  for (const mochi of sim.mochis) {
+    if (!driver.mochiIds.has(mochi.id)) {
+      worker.postMessage({ type: mochi.isDropping ? 'drop' : 'add', mochi: serializeMochi(mochi) }, []);
+    }
+  }
+  driver.mochiIds = current;
+}
+
+// Send the worker the next batch: up to `maxTicks`, stopping where the next
+// merge completes, and short enough that merges detected inside it cannot
+// complete before it ends. The ticks count as simulated from here on. Returns
+// how many were sent (none while a batch is still out).
+export function postWorkerBatch(driver: WorkerDriver, sim: Simulation, maxTicks: number): number {
+  if (driver.pending) return 0;
+
+  completeDueMerges(sim);
+  const ticks = Math.min(maxTicks, getBatchLimit(sim));
+  if (ticks <= 0) return 0;
+
+  driver.pending = true;
+  syncWorkerBoard(driver, sim);
+
+  // Hand the last transferred state buffer back so the worker can reuse it
+  const recycle = driver.recycledState;
+  driver.recycledState = null;
+  driver.worker.postMessage(
+    { type: 'update', startTick: sim.tick, ticks, recycle: recycle ?? undefined },
+    recycle ? [recycle.buffer as ArrayBuffer] : [],
+  );
+
+  sim.tick += ticks;
+  advanceDropCooldown(sim, ticks);
+  return ticks;
+}
+
+// Apply a finished batch to the board it was posted for, even if the game has
+// since switched modes or started a replay - its ticks are already counted
+// there. Returns that board, with the batch's rules side applied.
+export function applyWorkerUpdate(driver: WorkerDriver, message: WorkerUpdate): Simulation | null {
+  driver.pending = false;
+  if (!driver.sharedState) driver.recycledState = message.state;
+  driver.pairCount = message.pairs;
+
+  const target = driver.sim;
+  if (!target) return null;
+  applyBoardState(target.mochis, message.state, message.length);
+  applyPhysicsEvents(target, message.events);
+  return target;
+}
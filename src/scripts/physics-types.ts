@@ -18,6 +18,9 @@ export interface SerializedMochi {
   merging: boolean;
   mergeTimer: number;
   settleTimer: number;
+  mergeChain: number;
+  mergeChainUntil: number;
+  overflowTicks: number;
   squishAmount: number;
   wobblePhase: number;
   wobbleIntensity: number;
@@ -28,25 +31,46 @@ export interface SerializedMochi {
   prevVy: number;
 }
 
+// Fixed simulation step in 60fps frame units (one tick = one ~120Hz physics step)
+// Both the main thread and the worker advance in whole ticks so a seed plus the
+// same drop inputs always replays identically
+export const TICK_DT = 0.5;
+
+// Ticks between a merge being detected and the merged mochi appearing (~150ms)
+export const MERGE_DELAY_TICKS = 18;
+
+// What a mochi resting above the overflow line does: end the run, or (zen)
+// dissolve after DISSOLVE_DELAY_TICKS there (~2 seconds)
+export type OverflowRule = 'gameOver' | 'dissolve';
+export const DISSOLVE_DELAY_TICKS = 240;
+
 // Messages from main thread to worker
+// The worker owns the board: mochis are sent once when they appear (dropped, or
+// created by a merge) and only their ids after that
 export type WorkerInputMessage =
   | { type: 'init'; config: PhysicsConfig; container: Container }
-  | { type: 'update'; mochis: SerializedMochi[]; container: Container; dt: number }
+  | { type: 'load'; mochis: SerializedMochi[]; overflow: OverflowRule } // Replace the whole board (new game, mode switch)
+  | { type: 'drop'; mochi: SerializedMochi }
   | { type: 'add'; mochi: SerializedMochi }
   | { type: 'remove'; mochiId: number }
+  | { type: 'update'; startTick: number; ticks: number; recycle?: Float64Array }
   | { type: 'setConfig'; config: PhysicsConfig };
 
 // Messages from worker to main thread
+// `state` is the packed board (see writeBoardState). It is either transferred,
+// in which case the main thread hands it back with the next update for reuse,
+// or a view into a SharedArrayBuffer the worker alternates between.
 export type WorkerOutputMessage =
-  | { type: 'updated'; mochis: SerializedMochi[]; events: PhysicsEvent[] }
-  | { type: 'ready' };
+  | { type: 'updated'; state: Float64Array; length: number; events: PhysicsEvent[]; pairs: number }
+  | { type: 'ready'; shared: boolean };
 
 // Physics events that need main thread handling
 export type PhysicsEvent =
-  | { event: 'merge'; m1Id: number; m2Id: number; x: number; y: number; tier: number }
+  | { event: 'merge'; m1Id: number; m2Id: number; x: number; y: number; tier: number; tick: number; chain: number }
   | { event: 'landed'; mochiId: number; impactVelocity: number }
   | { event: 'floorImpact'; mochiId: number; impactVelocity: number }
-  | { event: 'gameOver' };
+  | { event: 'dissolve'; mochiId: number; x: number; y: number; tier: number; tick: number }
+  | { event: 'gameOver'; tick: number };
 
 // Convert full Mochi to serialized form for worker
 export function serializeMochi(mochi: Mochi): SerializedMochi {
@@ -66,6 +90,9 @@ export function serializeMochi(mochi: Mochi): SerializedMochi {
     merging: mochi.merging,
     mergeTimer: mochi.mergeTimer,
     settleTimer: mochi.settleTimer,
+    mergeChain: mochi.mergeChain,
+    mergeChainUntil: mochi.mergeChainUntil,
+    overflowTicks: mochi.overflowTicks,
     squishAmount: mochi.squishAmount,
     wobblePhase: mochi.wobblePhase,
     wobbleIntensity: mochi.wobbleIntensity,
@@ -77,28 +104,104 @@ export function serializeMochi(mochi: Mochi): SerializedMochi {
   };
 }
 
-// Apply worker physics update back to full Mochi
-export function applyPhysicsToMochi(mochi: Mochi, serialized: SerializedMochi): void {
-  // Update physics state
-  mochi.points = serialized.points;
-  mochi.cx = serialized.cx;
-  mochi.cy = serialized.cy;
-  mochi.vx = serialized.vx;
-  mochi.vy = serialized.vy;
-  mochi.radius = serialized.radius;
-  mochi.isDropping = serialized.isDropping;
-  mochi.hasLanded = serialized.hasLanded;
-  mochi.merging = serialized.merging;
-  mochi.mergeTimer = serialized.mergeTimer;
-  mochi.settleTimer = serialized.settleTimer;
-  mochi.squishAmount = serialized.squishAmount;
-  mochi.wobblePhase = serialized.wobblePhase;
-  mochi.wobbleIntensity = serialized.wobbleIntensity;
-  mochi.breathPhase = serialized.breathPhase;
-  mochi.lastY = serialized.lastY;
-  mochi.jitterAmount = serialized.jitterAmount;
-  mochi.prevVx = serialized.prevVx;
-  mochi.prevVy = serialized.prevVy;
+// Packed board state, one record per mochi:
+//   id, point count, radius, cx, cy, vx, vy, flags, mergeTimer, settleTimer,
+//   squishAmount, wobblePhase, wobbleIntensity, breathPhase, lastY,
+//   jitterAmount, prevVx, prevVy, overflowTicks, then x, y, vx, vy for each point.
+// Only what changes per tick - springs, rest offsets, tier and merge chain are
+// sent once when the mochi is added. 64-bit floats, because the main thread's
+// copy has to stay exact: it is handed back to the worker on mode switches and
+// must keep replaying identically.
+const STATE_HEADER = 19;
+const FLAG_DROPPING = 1;
+const FLAG_LANDED = 2;
+const FLAG_MERGING = 4;
+
+// Float64 slots needed to pack these mochis
+export function getBoardStateLength(mochis: SerializedMochi[]): number {
+  let length = 0;
+  for (const mochi of mochis) {
+    length += STATE_HEADER + mochi.points.length * 4;
+  }
+  return length;
+}
+
+// Pack the board into `state` (at least getBoardStateLength long)
+export function writeBoardState(mochis: SerializedMochi[], state: Float64Array): number {
+  let o = 0;
+  for (const mochi of mochis) {
+    state[o] = mochi.id;
+    state[o + 1] = mochi.points.length;
+    state[o + 2] = mochi.radius;
+    state[o + 3] = mochi.cx;
+    state[o + 4] = mochi.cy;
+    state[o + 5] = mochi.vx;
+    state[o + 6] = mochi.vy;
+    state[o + 7] = (mochi.isDropping ? FLAG_DROPPING : 0) | (mochi.hasLanded ? FLAG_LANDED : 0) | (mochi.merging ? FLAG_MERGING : 0);
+    state[o + 8] = mochi.mergeTimer;
+    state[o + 9] = mochi.settleTimer;
+    state[o + 10] = mochi.squishAmount;
+    state[o + 11] = mochi.wobblePhase;
+    state[o + 12] = mochi.wobbleIntensity;
+    state[o + 13] = mochi.breathPhase;
+    state[o + 14] = mochi.lastY;
+    state[o + 15] = mochi.jitterAmount;
+    state[o + 16] = mochi.prevVx;
+    state[o + 17] = mochi.prevVy;
+    state[o + 18] = mochi.overflowTicks;
+    o += STATE_HEADER;
+    for (const p of mochi.points) {
+      state[o] = p.x;
+      state[o + 1] = p.y;
+      state[o + 2] = p.vx;
+      state[o + 3] = p.vy;
+      o += 4;
+    }
+  }
+  return o;
+}
+
+// Read a packed board straight into the main thread's mochis
+// The copy stays complete, so the board can be handed back to the worker (or to
+// main-thread physics) at any time
+export function applyBoardState(mochis: Mochi[], state: Float64Array, length: number): void {
+  const byId = new Map(mochis.map(m => [m.id, m]));
+  let o = 0;
+  while (o < length) {
+    const mochi = byId.get(state[o]);
+    const pointCount = state[o + 1];
+    if (mochi) {
+      const flags = state[o + 7];
+      mochi.radius = state[o + 2];
+      mochi.cx = state[o + 3];
+      mochi.cy = state[o + 4];
+      mochi.vx = state[o + 5];
+      mochi.vy = state[o + 6];
+      mochi.isDropping = (flags & FLAG_DROPPING) !== 0;
+      mochi.hasLanded = (flags & FLAG_LANDED) !== 0;
+      mochi.merging = (flags & FLAG_MERGING) !== 0;
+      mochi.mergeTimer = state[o + 8];
+      mochi.settleTimer = state[o + 9];
+      mochi.squishAmount = state[o + 10];
+      mochi.wobblePhase = state[o + 11];
+      mochi.wobbleIntensity = state[o + 12];
+      mochi.breathPhase = state[o + 13];
+      mochi.lastY = state[o + 14];
+      mochi.jitterAmount = state[o + 15];
+      mochi.prevVx = state[o + 16];
+      mochi.prevVy = state[o + 17];
+      mochi.overflowTicks = state[o + 18];
+      let p = o + STATE_HEADER;
+      for (const point of mochi.points) {
+        point.x = state[p];
+        point.y = state[p + 1];
+        point.vx = state[p + 2];
+        point.vy = state[p + 3];
+        p += 4;
+      }
+    }
+    o += STATE_HEADER + pointCount * 4;
+  }
 }
 
 // Create a full Mochi from serialized data (for new mochis from merges)
@@ -3,10 +3,11 @@ import type {
   Point,
   Spring,
   PhysicsConfig,
-  MochiColor,
   MochiTier,
   Container,
 } from "./types";
+import type { SerializedMochi, PhysicsEvent, OverflowRule } from "./physics-types";
+import { TICK_DT, DISSOLVE_DELAY_TICKS } from "./physics-types";
 
 export const defaultConfig: PhysicsConfig = {
   springStiffness: 0.4, // Slightly softer for more squish
@@ -183,7 +184,13 @@ export const DROPPABLE_TIERS = [0, 1, 2, 3, 4];
 
 let mochiIdCounter = 0;
 
-export function createMochi(x: number, y: number, tier: number): Mochi {
+// Pass a seeded random function to make the mochi's idle phases reproducible
+export function createMochi(
+  x: number,
+  y: number,
+  tier: number,
+  random: () => number = Math.random,
+): Mochi {
   const tierData = mochiTiers[tier];
   const radius = tierData.radius;
 
@@ -262,17 +269,20 @@ export function createMochi(x: number, y: number, tier: number): Mochi {
     emotionTimer: 0,
     squishAmount: 0,
     impactVelocity: 0,
-    wobblePhase: Math.random() * Math.PI * 2,
+    wobblePhase: random() * Math.PI * 2,
     wobbleIntensity: 0,
-    breathPhase: Math.random() * Math.PI * 2,
+    breathPhase: random() * Math.PI * 2,
     lastY: y,
     merging: false,
     mergeTimer: 0,
     isDropping: false,
     hasLanded: false,
     settleTimer: 0,
+    mergeChain: 0,
+    mergeChainUntil: 0,
+    overflowTicks: 0,
     // Animation states
-    blinkTimer: 60 + Math.random() * 180, // Random initial blink time
+    blinkTimer: 60 + random() * 180, // Random initial blink time
     blinkState: 0,
     lookDirection: 0,
     lookTimer: 0,
@@ -402,11 +412,14 @@ function segmentsIntersect(
   return t > 0.01 && t < 0.99 && u > 0.01 && u < 0.99;
 }
 
-export function updateMochi(
-  mochi: Mochi,
+// Advance one mochi's soft body. Anything the game should react to (landing,
+// hard floor hits) is reported through `events`; faces are left to the caller.
+export function updateMochiPhysics(
+  mochi: SerializedMochi,
   config: PhysicsConfig,
   container: Container,
-  dt: number = 1,
+  dt: number,
+  events: PhysicsEvent[],
 ): void {
   if (mochi.merging) return; // Don't update merging mochi
 
@@ -440,61 +453,6 @@ export function updateMochi(
   mochi.prevVx = velocity.vx;
   mochi.prevVy = velocity.vy;
 
-  // Calculate shape deformation (how far from a perfect circle)
-  let deformation = 0;
-  for (const p of points) {
-    const dx = p.x - center.x;
-    const dy = p.y - center.y;
-    const dist = Math.sqrt(dx * dx + dy * dy);
-    const idealDist = mochi.baseRadius;
-    deformation += Math.abs(dist - idealDist) / idealDist;
-  }
-  deformation /= points.length;
-
-  // Update emotion
-  mochi.emotionTimer -= dt;
-  if (mochi.emotionTimer <= 0) {
-    let newEmotion = mochi.emotion;
-    let newTimer = 30; // Default timer
-
-    if (mochi.jitterAmount > 2) {
-      // Stressed face when jittering a lot
-      newEmotion = "stressed";
-      newTimer = 15;
-    } else if (speed > 15) {
-      // Only show flying face at very high speeds
-      newEmotion = "flying";
-      newTimer = 15;
-    } else if (mochi.squishAmount > 0.5 || deformation > 0.25) {
-      // Show squished face when heavily compressed
-      newEmotion = "squished";
-      newTimer = 20;
-    } else if (speed < 0.5 && mochi.squishAmount < 0.15 && deformation < 0.1) {
-      // Settled - stay happy or sleepy, don't randomly switch between them
-      if (mochi.emotion !== "happy" && mochi.emotion !== "sleepy" && mochi.emotion !== "yawning") {
-        newEmotion = "happy";
-        newTimer = 120; // Long timer when settling into happy
-      } else {
-        // Keep current emotion, just refresh timer
-        newTimer = 60;
-      }
-    } else if (mochi.squishAmount < 0.2 && speed < 4) {
-      // Mild movement - return to happy
-      if (mochi.emotion !== "happy" && mochi.emotion !== "sleepy") {
-        newEmotion = "happy";
-        newTimer = 45;
-      }
-    }
-
-    if (newEmotion !== mochi.emotion) {
-      mochi.emotion = newEmotion;
-      mochi.emotionTimer = newTimer;
-    } else if (mochi.emotionTimer <= 0) {
-      // Same emotion, just refresh timer
-      mochi.emotionTimer = newTimer;
-    }
-  }
-
   // Breathing
   mochi.breathPhase += 0.02 * dt;
   const breathScale = 1 + Math.sin(mochi.breathPhase) * 0.012;
@@ -753,6 +711,7 @@ export function updateMochi(
         mochi.hasLanded = true;
         mochi.isDropping = false;
         mochi.settleTimer = 60; // Grace period before game over check
+        events.push({ event: "landed", mochiId: mochi.id, impactVelocity: impact });
       }
     }
     // Left wall
@@ -771,13 +730,11 @@ export function updateMochi(
 
   // Floor impact effects
   if (hadFloorImpact && maxFloorImpact > 2) {
-    mochi.impactVelocity = maxFloorImpact;
     const squashAmount = Math.min(0.7, maxFloorImpact * 0.06);
     mochi.squishAmount = Math.max(mochi.squishAmount, squashAmount);
     mochi.wobbleIntensity = Math.min(2.5, mochi.wobbleIntensity + maxFloorImpact * 0.15);
     if (maxFloorImpact > 5) {
-      mochi.emotion = "squished";
-      mochi.emotionTimer = Math.min(20, maxFloorImpact * 2);
+      events.push({ event: "floorImpact", mochiId: mochi.id, impactVelocity: maxFloorImpact });
     }
   }
 
@@ -925,7 +882,7 @@ export function updateMochi(
   }
   const avgVelocity = totalVelocity / points.length;
 
-  if (mochi.hasLanded && mochi.settleTimer <= 0 && avgVelocity < SLEEP_VELOCITY_THRESHOLD && !mochi.grabbed) {
+  if (mochi.hasLanded && mochi.settleTimer <= 0 && avgVelocity < SLEEP_VELOCITY_THRESHOLD) {
     for (const p of points) {
       p.vx = 0;
       p.vy = 0;
@@ -933,7 +890,11 @@ export function updateMochi(
   }
 }
 
-export function checkMochiCollision(m1: Mochi, m2: Mochi): boolean {
+export function checkMochiCollision(
+  m1: SerializedMochi,
+  m2: SerializedMochi,
+  events: PhysicsEvent[],
+): boolean {
   if (m1.merging || m2.merging) return false;
 
   const dx = m2.cx - m1.cx;
@@ -1036,11 +997,13 @@ export function checkMochiCollision(m1: Mochi, m2: Mochi): boolean {
       m1.hasLanded = true;
       m1.isDropping = false;
       m1.settleTimer = 60;
+      events.push({ event: "landed", mochiId: m1.id, impactVelocity: Math.sqrt(m1.vx ** 2 + m1.vy ** 2) });
     }
     if (m2.isDropping && !m2.hasLanded) {
       m2.hasLanded = true;
       m2.isDropping = false;
       m2.settleTimer = 60;
+      events.push({ event: "landed", mochiId: m2.id, impactVelocity: Math.sqrt(m2.vx ** 2 + m2.vy ** 2) });
     }
 
     const overlap = minDist - dist;
@@ -1086,7 +1049,7 @@ export function checkMochiCollision(m1: Mochi, m2: Mochi): boolean {
   return false;
 }
 
-export function canMerge(m1: Mochi, m2: Mochi): boolean {
+export function canMerge(m1: SerializedMochi, m2: SerializedMochi): boolean {
   if (m1.merging || m2.merging) return false;
   if (m1.tier !== m2.tier) return false;
   if (m1.tier >= mochiTiers.length - 1) return false; // Can't merge max tier
@@ -1100,6 +1063,162 @@ export function canMerge(m1: Mochi, m2: Mochi): boolean {
   return dist < minDist;
 }
 
+// A mochi that has come to rest above the overflow line
+function isOverflowing(mochi: SerializedMochi, container: Container): boolean {
+  if (mochi.merging || mochi.isDropping || !mochi.hasLanded) return false;
+  if (mochi.settleTimer > 0) return false; // Still in grace period
+
+  const topY = mochi.cy - mochi.baseRadius;
+  if (topY >= container.overflowLine) return false;
+
+  // Only count mochi that have come to rest above the line
+  const speed = Math.sqrt(mochi.vx ** 2 + mochi.vy ** 2);
+  return speed < 2;
+}
+
+export function checkGameOver(mochis: SerializedMochi[], container: Container): boolean {
+  return mochis.some(mochi => isOverflowing(mochi, container));
+}
+
+// Zen: mochi resting above the line long enough are taken off the board.
+// Removes them in place (keeping the order of the rest) and reports each one.
+function dissolveOverflowing(mochis: SerializedMochi[], container: Container, tick: number, events: PhysicsEvent[]): void {
+  let kept = 0;
+  for (const mochi of mochis) {
+    mochi.overflowTicks = isOverflowing(mochi, container) ? mochi.overflowTicks + 1 : 0;
+    if (mochi.overflowTicks >= DISSOLVE_DELAY_TICKS) {
+      events.push({ event: "dissolve", mochiId: mochi.id, x: mochi.cx, y: mochi.cy, tier: mochi.tier, tick });
+    } else {
+      mochis[kept++] = mochi;
+    }
+  }
+  mochis.length = kept;
+}
+
+// Broadphase: how far from its centre a mochi can affect another. Collisions
+// start at 1.3x the combined radii; the extra pixel absorbs rounding so no pair
+// the narrow phase would act on is ever left out.
+const BROADPHASE_REACH = 1.3;
+const BROADPHASE_SLOP = 1;
+
+let lastPairCount = 0;
+
+// Candidate pairs from the last tick, for the profiling overlay
+export function getBroadphasePairCount(): number {
+  return lastPairCount;
+}
+
+// Sweep and prune on x, then reject by y. Returns pairs as i * n + j (i < j),
+// sorted, so the narrow phase visits them in the same order as a full i/j scan
+// and results stay identical. Centres only move in updateMochiPhysics, so one
+// pass serves the collision and merge checks of a tick.
+function findNearbyPairs(mochis: SerializedMochi[]): number[] {
+  const n = mochis.length;
+  const reach = mochis.map(m => m.baseRadius * BROADPHASE_REACH + BROADPHASE_SLOP);
+  const order = mochis.map((_, i) => i).sort((a, b) => (mochis[a].cx - reach[a]) - (mochis[b].cx - reach[b]));
+
+  const pairs: number[] = [];
+  for (let k = 0; k < n; k++) {
+    const a = order[k];
+    const maxX = mochis[a].cx + reach[a];
+    for (let l = k + 1; l < n; l++) {
+      const b = order[l];
+      if (mochis[b].cx - reach[b] > maxX) break;
+      if (Math.abs(mochis[b].cy - mochis[a].cy) > reach[a] + reach[b]) continue;
+      pairs.push(a < b ? a * n + b : b * n + a);
+    }
+  }
+  return pairs.sort((a, b) => a - b);
+}
+
+// A freshly merged mochi that merges again continues its cascade
+function getLiveChain(mochi: SerializedMochi, tick: number): number {
+  return tick <= mochi.mergeChainUntil ? mochi.mergeChain : 0;
+}
+
+// Advance the board a whole number of fixed ticks. This is the one physics step
+// shared by the worker, the main-thread fallback and the headless simulation, so
+// every path produces the same board for the same inputs. Stops early on game
+// over, since no later tick would run anywhere else either. With the dissolve
+// rule there is no game over and `mochis` may shrink.
+export function runPhysicsTicks(
+  mochis: SerializedMochi[],
+  config: PhysicsConfig,
+  container: Container,
+  startTick: number,
+  ticks: number,
+  overflow: OverflowRule,
+): PhysicsEvent[] {
+  const events: PhysicsEvent[] = [];
+
+  for (let tick = startTick; tick < startTick + ticks; tick++) {
+    for (const mochi of mochis) {
+      if (!mochi.merging) {
+        updateMochiPhysics(mochi, config, container, TICK_DT, events);
+      }
+    }
+
+    const n = mochis.length;
+    const pairs = findNearbyPairs(mochis);
+    lastPairCount = pairs.length;
+
+    for (const pair of pairs) {
+      checkMochiCollision(mochis[Math.floor(pair / n)], mochis[pair % n], events);
+    }
+
+    for (const mochi of mochis) {
+      if (!mochi.merging) {
+        if (mochi.settleTimer > 0) {
+          mochi.settleTimer -= TICK_DT;
+        }
+      } else {
+        // Merge animation
+        mochi.mergeTimer -= 0.08 * TICK_DT;
+        if (mochi.mergeTimer < 0) mochi.mergeTimer = 0;
+      }
+    }
+
+    // Every touching pair merges this tick. A mochi touching two partners goes
+    // with the smallest tier first, then the oldest pair (lowest ids)
+    const mergePairs: [SerializedMochi, SerializedMochi][] = [];
+    for (const pair of pairs) {
+      const m1 = mochis[Math.floor(pair / n)];
+      const m2 = mochis[pair % n];
+      if (canMerge(m1, m2)) {
+        mergePairs.push(m1.id < m2.id ? [m1, m2] : [m2, m1]);
+      }
+    }
+    mergePairs.sort(([a1, a2], [b1, b2]) => a1.tier - b1.tier || a1.id - b1.id || a2.id - b2.id);
+
+    for (const [m1, m2] of mergePairs) {
+      if (m1.merging || m2.merging) continue; // Already taken by a higher-priority pair
+      m1.merging = true;
+      m2.merging = true;
+      m1.mergeTimer = 1;
+      m2.mergeTimer = 1;
+      events.push({
+        event: "merge",
+        m1Id: m1.id,
+        m2Id: m2.id,
+        x: (m1.cx + m2.cx) / 2,
+        y: (m1.cy + m2.cy) / 2,
+        tier: m1.tier + 1,
+        tick,
+        chain: Math.max(getLiveChain(m1, tick), getLiveChain(m2, tick)) + 1,
+      });
+    }
+
+    if (overflow === "dissolve") {
+      dissolveOverflowing(mochis, container, tick, events);
+    } else if (checkGameOver(mochis, container)) {
+      events.push({ event: "gameOver", tick });
+      break;
+    }
+  }
+
+  return events;
+}
+
 export function getRandomDroppableTier(): number {
   return DROPPABLE_TIERS[Math.floor(Math.random() * DROPPABLE_TIERS.length)];
 }
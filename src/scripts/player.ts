@@ -0,0 +1,106 @@
+// Who's playing on this device: a display name anyone can see and change, and a
+// random id that stays put and ties their leaderboard entries together. No
+// localStorage access at import, so the score server can share the checks.
+
+export const MIN_NAME_LENGTH = 3;
+export const MAX_NAME_LENGTH = 32;
+
+const PLAYER_NAME_KEY = 'mochiPlayerName';
+const PLAYER_ID_KEY = 'mochiPlayerId';
+
+// Fun name generator for players
+const adjectives = [
+  'Happy', 'Sleepy', 'Bouncy', 'Fluffy', 'Cozy', 'Sunny', 'Dreamy', 'Gentle',
+  'Jolly', 'Mellow', 'Peaceful', 'Quiet', 'Soft', 'Sweet', 'Tender', 'Warm',
+  'Bubbly', 'Cheerful', 'Cuddly', 'Fuzzy', 'Giggly', 'Lovely', 'Snuggly', 'Tiny'
+];
+
+const nouns = [
+  'Mochi', 'Tanuki', 'Panda', 'Bunny', 'Kitten', 'Puppy', 'Duckling', 'Hamster',
+  'Penguin', 'Koala', 'Otter', 'Seal', 'Squirrel', 'Hedgehog', 'Deer', 'Fox',
+  'Shiba', 'Corgi', 'Totoro', 'Pikachu', 'Kirby', 'Slime', 'Bean', 'Dumpling'
+];
+
+export function generatePlayerName(): string {
+  const adj = adjectives[Math.floor(Math.random() * adjectives.length)];
+  const noun = nouns[Math.floor(Math.random() * nouns.length)];
+  const num = Math.floor(Math.random() * 100);
+  return `${adj}${noun}${num}`;
+}
+
+export function getOrCreatePlayerName(): string {
+  let name = localStorage.getItem(PLAYER_NAME_KEY);
+  if (!name) {
+    name = generatePlayerName();
+    localStorage.setItem(PLAYER_NAME_KEY, name);
+  }
+  return name;
+}
+
+export function savePlayerName(name: string): void {
+  localStorage.setItem(PLAYER_NAME_KEY, name);
+}
+
+// The device's player id. Kept private: the score server stores only a hash
+// of it, so the ids can't be lifted from the public leaderboard.
+export function getOrCreatePlayerId(): string {
+  let id = localStorage.getItem(PLAYER_ID_KEY);
+  if (!id) {
+    id = typeof crypto.randomUUID === 'function'
+      ? crypto.randomUUID()
+      : Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+    localStorage.setItem(PLAYER_ID_KEY, id);
+  }
+  return id;
+}
+
+// What leaderboard entries carry instead of the id: its SHA-256, in hex (the
+// score server's hashPlayerId, for the browser)
+export async function hashPlayerId(playerId: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(playerId));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function isValidPlayerId(id: unknown): id is string {
+  return typeof id === 'string' && /^[\w-]{16,64}$/.test(id);
+}
+
+// Words no name may contain. The game and the score server each set their own
+// (PUBLIC_NAME_BLOCKLIST and NAME_BLOCKLIST), so keep the two in step.
+const DEFAULT_NAME_BLOCKLIST = ['admin', 'moderator', 'official', 'fuck', 'shit', 'cunt', 'bitch', 'nazi', 'hitler'];
+
+let nameBlocklist: string[] = DEFAULT_NAME_BLOCKLIST;
+
+export function setNameBlocklist(words: string[]): void {
+  nameBlocklist = words.map(normalizeForBlocklist).filter(word => word.length > 0);
+}
+
+// Read a comma-separated blocklist setting, falling back to the default
+export function parseNameBlocklist(setting: string | undefined): string[] {
+  return setting === undefined ? DEFAULT_NAME_BLOCKLIST : setting.split(',');
+}
+
+// Lowercase letters only, with accents dropped and look-alike digits read as
+// letters, so "Adm1n" and "a.d.m.i.n" are caught too
+const LOOKALIKES: Record<string, string> = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '5': 's', '7': 't', '@': 'a', '$': 's' };
+
+function normalizeForBlocklist(text: string): string {
+  return text
+    .normalize('NFKD')
+    .toLowerCase()
+    .replace(/[0-9@$]/g, char => LOOKALIKES[char] ?? char)
+    .replace(/[^a-z]/g, '');
+}
+
+// Why a name can't be used, or null when it's fine (after trimming)
+export function validatePlayerName(name: unknown): string | null {
+  if (typeof name !== 'string' || name.trim().length === 0) return 'Name is empty';
+  const trimmed = name.trim();
+  if (trimmed.length < MIN_NAME_LENGTH) return `Name needs at least ${MIN_NAME_LENGTH} characters`;
+  if (trimmed.length > MAX_NAME_LENGTH) return `Name is longer than ${MAX_NAME_LENGTH} characters`;
+  if (!/^[\p{L}\p{M}\p{N} _.'-]+$/u.test(trimmed)) return "Use letters, numbers, spaces and _ . ' - only";
+  if (!/[\p{L}\p{N}]/u.test(trimmed)) return 'Name needs a letter or number';
+  const normalized = normalizeForBlocklist(trimmed);
+  if (nameBlocklist.some(word => normalized.includes(word))) return "That name isn't allowed";
+  return null;
+}
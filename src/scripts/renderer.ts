@@ -6,12 +6,29 @@ import type {
   GameState,
   MergeEffect,
   ImpactStar,
+  ComboCallout,
   CherryBlossom,
   WalkingCat,
+  ReplayControl,
+  ReplayViewer,
+  GameMode,
+  HoveredButton,
+  LevelSelectEntry,
+  DailyHistory,
+  DailyStats,
+  OnlineResult,
+  OnlineState,
+  NameEditor,
+  LeaderboardScope,
 } from "./types";
 import { mochiTiers } from "./physics";
+import { DISSOLVE_DELAY_TICKS } from "./physics-types";
 import type { LeaderboardEntry } from "./leaderboard";
-import { getDayNumber } from "./daily";
+import { getDayNumber, getTodayString, getMonthDates, isPlayableDailyDate, LAUNCH_DAY } from "./daily";
+import { describeGoal } from "./levels";
+import { MAX_NAME_LENGTH } from "./player";
+import { BOARD } from "./simulation";
+import type { VersusMatch, VersusPlayer } from "./versus";
 
 // Performance/Quality mode
 export type QualityMode = 'high' | 'low';
@@ -79,6 +96,7 @@ let vignetteCtx: CanvasRenderingContext2D | null = null;
 // Visual effects storage
 const mergeEffects: MergeEffect[] = [];
 const impactStars: ImpactStar[] = [];
+const comboCallouts: ComboCallout[] = [];
 
 // Ambient particles (dust motes floating gently)
 interface AmbientParticle {
@@ -138,6 +156,18 @@ interface DustPoof {
 }
 const dustPoofs: DustPoof[] = [];
 
+// Zen: motes a dissolved mochi drifts away as
+interface DissolveMote {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  size: number;
+  life: number;
+  color: string;
+}
+const dissolveMotes: DissolveMote[] = [];
+
 // Easter egg effects
 const cherryBlossoms: CherryBlossom[] = [];
 const walkingCat: WalkingCat = { x: -50, y: 0, direction: 1, frame: 0, active: false };
@@ -1293,6 +1323,30 @@ export function addMergeEffect(x: number, y: number, radius: number, color: stri
   });
 }
 
+// A mochi breaking up into soft motes that float away (zen overflow)
+export function addDissolveEffect(x: number, y: number, radius: number, color: string): void {
+  const count = 10 + Math.floor(radius / 4);
+
+  for (let i = 0; i < count; i++) {
+    const angle = Math.random() * Math.PI * 2;
+    const distance = Math.sqrt(Math.random()) * radius;
+    dissolveMotes.push({
+      x: x + Math.cos(angle) * distance,
+      y: y + Math.sin(angle) * distance,
+      vx: (Math.random() - 0.5) * 0.6,
+      vy: -0.3 - Math.random() * 0.6,
+      size: 2 + Math.random() * 4,
+      life: 0.8 + Math.random() * 0.2,
+      color,
+    });
+  }
+}
+
+// "Combo x3" text that pops up above a merge
+export function addComboCallout(x: number, y: number, combo: number): void {
+  comboCallouts.push({ x, y, combo, life: 1 });
+}
+
 export function addImpactStars(x: number, y: number, intensity: number, color: string): void {
   const numStars = Math.min(6, Math.floor(intensity));
 
@@ -1397,6 +1451,56 @@ function drawEffects(ctx: CanvasRenderingContext2D): void {
     ctx.globalAlpha = 1;
   }
 
+  // Draw combo callouts - pop in, drift up, fade out
+  for (let i = comboCallouts.length - 1; i >= 0; i--) {
+    const callout = comboCallouts[i];
+    callout.life -= 0.015;
+
+    if (callout.life <= 0) {
+      comboCallouts.splice(i, 1);
+      continue;
+    }
+
+    const age = 1 - callout.life;
+    const pop = age < 0.15 ? 0.6 + Math.sin((age / 0.15) * Math.PI * 0.75) * 0.6 : 1;
+    const size = 16 + Math.min(callout.combo, 6) * 2;
+
+    ctx.save();
+    ctx.translate(callout.x, callout.y - age * 40);
+    ctx.scale(pop, pop);
+    ctx.globalAlpha = Math.min(1, callout.life * 2.5);
+    ctx.font = `bold ${size}px "Segoe UI", sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.lineWidth = 4;
+    ctx.strokeStyle = "rgba(90, 60, 30, 0.7)";
+    ctx.strokeText(`Combo x${callout.combo}`, 0, 0);
+    ctx.fillStyle = callout.combo >= 5 ? "#FF9E6B" : "#FFD97A";
+    ctx.fillText(`Combo x${callout.combo}`, 0, 0);
+    ctx.restore();
+  }
+
+  // Draw dissolve motes - slow upward drift, fading as they go
+  for (let i = dissolveMotes.length - 1; i >= 0; i--) {
+    const mote = dissolveMotes[i];
+    mote.x += mote.vx;
+    mote.y += mote.vy;
+    mote.vx *= 0.99;
+    mote.life -= 0.012;
+
+    if (mote.life <= 0) {
+      dissolveMotes.splice(i, 1);
+      continue;
+    }
+
+    ctx.fillStyle = mote.color;
+    ctx.globalAlpha = mote.life * 0.8;
+    ctx.beginPath();
+    ctx.arc(mote.x, mote.y, mote.size * (0.4 + mote.life * 0.6), 0, Math.PI * 2);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  }
+
   // Draw dust poofs
   for (const poof of dustPoofs) {
     for (const p of poof.particles) {
@@ -1484,7 +1588,6 @@ function drawGameOverResults(
   container: Container,
   gameState: GameState,
   leaderboard: LeaderboardEntry[] | undefined,
-  playerName: string | undefined,
 ): void {
   const { x, y, width, height, wallThickness } = container;
   const centerX = x + width / 2;
@@ -1531,12 +1634,34 @@ function drawGameOverResults(
     ctx.font = '16px "Segoe UI", sans-serif';
     ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 0.8)" : "rgba(100, 130, 90, 0.8)";
     // Show "Daily Complete!" if already played, otherwise "Daily Challenge"
-    if (dailyAlreadyPlayed) {
+    if (dailyChallenge.archive) {
+      ctx.fillText("From the archive", centerX, centerY - 35);
+    } else if (dailyAlreadyPlayed) {
       ctx.fillStyle = nightMode ? "rgba(150, 220, 150, 0.9)" : "rgba(80, 140, 70, 0.9)";
       ctx.fillText("Daily Complete!", centerX, centerY - 35);
     } else {
       ctx.fillText("Daily Challenge", centerX, centerY - 35);
     }
+  } else if (gameMode === "puzzle" && gameState.level) {
+    ctx.font = 'bold 26px "Segoe UI", sans-serif';
+    ctx.fillStyle = nightMode ? "#E8E4E0" : "#3D5A3A";
+    ctx.fillText(gameState.level.name, centerX, centerY - 60);
+
+    ctx.font = '16px "Segoe UI", sans-serif';
+    if (gameState.levelResult === "won") {
+      ctx.fillStyle = nightMode ? "rgba(150, 220, 150, 0.9)" : "rgba(80, 140, 70, 0.9)";
+      ctx.fillText("Level complete!", centerX, centerY - 35);
+    } else {
+      ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 0.8)" : "rgba(100, 130, 90, 0.8)";
+      ctx.fillText("Out of drops", centerX, centerY - 35);
+    }
+  } else if (gameMode === "online" && gameState.online) {
+    const result = gameState.online.result;
+    ctx.font = 'bold 32px "Segoe UI", sans-serif';
+    ctx.fillStyle = result === "won" || result === "forfeit"
+      ? (nightMode ? "rgba(150, 220, 150, 0.95)" : "rgba(80, 140, 70, 0.95)")
+      : (nightMode ? "#E8E4E0" : "#3D5A3A");
+    ctx.fillText(result ? ONLINE_RESULT_TITLES[result] : "Disconnected", centerX, centerY - 50);
   } else {
     ctx.font = 'bold 32px "Segoe UI", sans-serif';
     ctx.fillStyle = nightMode ? "#E8E4E0" : "#3D5A3A";
@@ -1552,9 +1677,15 @@ function drawGameOverResults(
   ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
   ctx.fillText("score", centerX, centerY + 25);
 
-  // Player rank (daily mode only)
-  if (gameMode === "daily" && leaderboard && leaderboard.length > 0 && playerName) {
-    const playerIndex = leaderboard.findIndex((e) => e.name === playerName);
+  // Player rank (daily mode only). An archive run isn't on the board - show
+  // where it would have placed on the day.
+  if (gameMode === "daily" && dailyChallenge?.archive && leaderboard && leaderboard.length > 0) {
+    const place = leaderboard.filter((e) => e.score > gameState.score).length + 1;
+    ctx.font = '18px "Segoe UI", sans-serif';
+    ctx.fillStyle = nightMode ? "rgba(255, 200, 100, 0.9)" : "#7A9B6D";
+    ctx.fillText(`Would place #${place}`, centerX, centerY + 55);
+  } else if (gameMode === "daily" && leaderboard && leaderboard.length > 0) {
+    const playerIndex = leaderboard.findIndex((e) => e.isPlayer);
     if (playerIndex >= 0) {
       ctx.font = '18px "Segoe UI", sans-serif';
       ctx.fillStyle = nightMode ? "rgba(255, 200, 100, 0.9)" : "#7A9B6D";
@@ -1562,6 +1693,20 @@ function drawGameOverResults(
     }
   }
 
+  // Opponent's final score (online versus)
+  if (gameMode === "online" && gameState.online?.opponentName) {
+    const { opponentName, opponentScore, opponentVerified } = gameState.online;
+    ctx.font = '16px "Segoe UI", sans-serif';
+    ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 0.8)" : "rgba(100, 130, 90, 0.8)";
+    const unverified = opponentVerified === false ? " (unverified)" : "";
+    ctx.fillText(`vs ${opponentName}: ${opponentScore.toLocaleString()}${unverified}`, centerX, centerY + 55, width - wallThickness * 2 - 20);
+  }
+
+  // Star rating (puzzle levels)
+  if (gameMode === "puzzle" && gameState.levelResult === "won") {
+    drawStars(ctx, centerX, centerY + 52, gameState.levelStars, 12, nightMode);
+  }
+
   // Tier badge (highest achieved)
   const badgeY = centerY + 90;
   ctx.fillStyle = tierData.color.primary;
@@ -1574,6 +1719,547 @@ function drawGameOverResults(
   ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
   ctx.fillText(`Highest: ${tierData.name}`, centerX, badgeY + 35);
 
+  // Longest combo
+  const bestCombo =
+    gameMode === "daily" && dailyChallenge?.played
+      ? dailyChallenge.bestCombo ?? 0
+      : gameState.bestCombo;
+  if (bestCombo > 1) {
+    ctx.fillText(`Best combo: x${bestCombo}`, centerX, badgeY + 53);
+  }
+
+  // Way into the statistics panel
+  if (gameMode === "daily" && dailyChallenge?.played) {
+    const link = getDailyStatsLink(container);
+    const hovered = gameState.hoveredButton === "stats";
+    ctx.fillStyle = nightMode
+      ? `rgba(100, 140, 180, ${hovered ? 0.45 : 0.25})`
+      : `rgba(122, 155, 109, ${hovered ? 0.45 : 0.25})`;
+    ctx.beginPath();
+    ctx.roundRect(link.x, link.y, link.width, link.height, link.height / 2);
+    ctx.fill();
+    ctx.font = '13px "Segoe UI", sans-serif';
+    ctx.fillStyle = nightMode ? "#E8F0F8" : "#3D5A3A";
+    ctx.fillText("📊 Stats", centerX, link.y + link.height / 2 + 4);
+  }
+
+  ctx.restore();
+}
+
+// "Stats" pill near the bottom of the daily results. Shared with mochi.ts for hit testing.
+export function getDailyStatsLink(container: Container): { x: number; y: number; width: number; height: number } {
+  const width = 96;
+  const height = 28;
+  return {
+    x: container.x + (container.width - width) / 2,
+    y: container.y + container.height - 62,
+    width,
+    height,
+  };
+}
+
+// Wordle-style statistics for the daily, drawn on the frosted container in
+// place of the results
+function drawDailyStats(
+  ctx: CanvasRenderingContext2D,
+  container: Container,
+  stats: DailyStats,
+  nightMode: boolean,
+): void {
+  const centerX = container.x + container.width / 2;
+  const textColor = nightMode ? "#F0E8DC" : "#4A6741";
+  const mutedColor = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
+
+  ctx.save();
+  ctx.textAlign = "center";
+
+  ctx.font = 'bold 26px "Segoe UI", sans-serif';
+  ctx.fillStyle = nightMode ? "#E8E4E0" : "#3D5A3A";
+  ctx.fillText("Statistics", centerX, container.y + 45);
+
+  // Two rows of figures
+  const figure = (value: number, label: string, x: number, y: number) => {
+    ctx.font = 'bold 24px "Segoe UI", sans-serif';
+    ctx.fillStyle = textColor;
+    ctx.fillText(value.toLocaleString(), x, y);
+    ctx.font = '11px "Segoe UI", sans-serif';
+    ctx.fillStyle = mutedColor;
+    ctx.fillText(label, x, y + 16);
+  };
+  const third = (container.width - container.wallThickness * 2) / 3;
+  figure(stats.played, "Played", centerX - third, container.y + 90);
+  figure(stats.averageScore, "Average", centerX, container.y + 90);
+  figure(stats.bestScore, "Best", centerX + third, container.y + 90);
+  figure(stats.currentStreak, "Current streak", centerX - third / 1.5, container.y + 145);
+  figure(stats.bestStreak, "Max streak", centerX + third / 1.5, container.y + 145);
+
+  // Histogram of the highest tier reached
+  ctx.font = 'bold 13px "Segoe UI", sans-serif';
+  ctx.fillStyle = textColor;
+  ctx.fillText("Highest tier reached", centerX, container.y + 192);
+
+  const rowHeight = 17;
+  const labelWidth = 78;
+  const left = container.x + container.wallThickness + 14;
+  const barMaxWidth = container.width - container.wallThickness * 2 - 28 - labelWidth;
+  const mostGames = Math.max(1, ...stats.tierCounts);
+  mochiTiers.forEach((tier, i) => {
+    const count = stats.tierCounts[i] ?? 0;
+    const y = container.y + 202 + i * rowHeight;
+    ctx.font = '11px "Segoe UI", sans-serif';
+    ctx.textAlign = "right";
+    ctx.fillStyle = mutedColor;
+    ctx.fillText(tier.name, left + labelWidth - 6, y + 11);
+
+    const barWidth = Math.max(18, (count / mostGames) * barMaxWidth);
+    ctx.fillStyle = count > 0 ? tier.color.primary : nightMode ? "rgba(150, 170, 190, 0.2)" : "rgba(100, 130, 90, 0.15)";
+    ctx.beginPath();
+    ctx.roundRect(left + labelWidth, y + 1, barWidth, rowHeight - 3, 3);
+    ctx.fill();
+    ctx.textAlign = "left";
+    ctx.fillStyle = count > 0 ? textColor : mutedColor;
+    ctx.fillText(String(count), left + labelWidth + 5, y + 11);
+  });
+
+  ctx.textAlign = "center";
+  ctx.font = '12px "Segoe UI", sans-serif';
+  ctx.fillStyle = mutedColor;
+  ctx.fillText("Tap to go back", centerX, container.y + container.height - 22);
+
+  ctx.restore();
+}
+
+const ONLINE_RESULT_TITLES: Record<OnlineResult, string> = {
+  won: "You win!",
+  lost: "You lose",
+  draw: "Draw",
+  forfeit: "Opponent left",
+};
+
+// Online versus lobby: the room, and what we're waiting on
+function drawOnlineLobby(
+  ctx: CanvasRenderingContext2D,
+  container: Container,
+  online: OnlineState,
+  nightMode: boolean,
+): void {
+  const centerX = container.x + container.width / 2;
+  const centerY = container.y + container.height / 2;
+  const maxWidth = container.width - container.wallThickness * 2 - 20;
+
+  let status: string;
+  let hint = "";
+  switch (online.status) {
+    case "connecting":
+      status = "Connecting…";
+      break;
+    case "waiting":
+      status = "Waiting for an opponent";
+      hint = "Share this page's link to invite someone";
+      break;
+    case "lobby":
+      status = `vs ${online.opponentName}`;
+      hint = online.ready ? "Waiting for them to start…" : "Click to start";
+      break;
+    default:
+      status = online.error ?? "Can't reach the versus server";
+      hint = "Switch modes to play offline";
+  }
+
+  ctx.save();
+  ctx.textAlign = "center";
+
+  ctx.font = 'bold 26px "Segoe UI", sans-serif';
+  ctx.fillStyle = nightMode ? "#E8E4E0" : "#3D5A3A";
+  ctx.fillText("Online Versus", centerX, centerY - 60);
+
+  ctx.font = '13px "Segoe UI", sans-serif';
+  ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
+  ctx.fillText(`Room: ${online.room}`, centerX, centerY - 36, maxWidth);
+
+  ctx.font = 'bold 18px "Segoe UI", sans-serif';
+  ctx.fillStyle = online.status === "offline" ? "#D9534F" : nightMode ? "#F0E8DC" : "#4A6741";
+  ctx.fillText(status, centerX, centerY + 5, maxWidth);
+
+  if (hint) {
+    ctx.font = '13px "Segoe UI", sans-serif';
+    ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
+    ctx.fillText(hint, centerX, centerY + 30, maxWidth);
+  }
+
+  ctx.restore();
+}
+
+// Row of three stars, the first `earned` filled
+function drawStars(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  earned: number,
+  size: number,
+  nightMode: boolean,
+): void {
+  for (let i = 0; i < 3; i++) {
+    const cx = x + (i - 1) * size * 2.2;
+    ctx.beginPath();
+    for (let p = 0; p < 10; p++) {
+      const angle = -Math.PI / 2 + (p * Math.PI) / 5;
+      const r = p % 2 === 0 ? size : size * 0.45;
+      ctx.lineTo(cx + Math.cos(angle) * r, y + Math.sin(angle) * r);
+    }
+    ctx.closePath();
+    if (i < earned) {
+      ctx.fillStyle = "#F2C14E";
+    } else {
+      ctx.fillStyle = nightMode ? "rgba(150, 170, 190, 0.3)" : "rgba(100, 130, 90, 0.2)";
+    }
+    ctx.fill();
+  }
+}
+
+// Level-select tiles: a three-column grid on the container, under the title
+export function getLevelSelectLayout(
+  container: Container,
+  count: number,
+): { x: number; y: number; width: number; height: number }[] {
+  const columns = 3;
+  const tileWidth = 84;
+  const tileHeight = 72;
+  const gap = 12;
+  const gridWidth = columns * tileWidth + (columns - 1) * gap;
+  const left = container.x + (container.width - gridWidth) / 2;
+  const top = container.y + 90;
+
+  return Array.from({ length: count }, (_, i) => ({
+    x: left + (i % columns) * (tileWidth + gap),
+    y: top + Math.floor(i / columns) * (tileHeight + gap),
+    width: tileWidth,
+    height: tileHeight,
+  }));
+}
+
+// Puzzle level select, drawn on the frosted container
+function drawLevelSelect(
+  ctx: CanvasRenderingContext2D,
+  container: Container,
+  entries: LevelSelectEntry[],
+  mouseX: number,
+  mouseY: number,
+  nightMode: boolean,
+): void {
+  const centerX = container.x + container.width / 2;
+  const primary = nightMode ? { r: 100, g: 140, b: 180 } : { r: 122, g: 155, b: 109 };
+
+  ctx.save();
+  ctx.textAlign = "center";
+
+  ctx.font = 'bold 26px "Segoe UI", sans-serif';
+  ctx.fillStyle = nightMode ? "#E8E4E0" : "#3D5A3A";
+  ctx.fillText("Puzzles", centerX, container.y + 50);
+
+  ctx.font = '13px "Segoe UI", sans-serif';
+  ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
+  ctx.fillText("Clear a level to open the next", centerX, container.y + 72);
+
+  const tiles = getLevelSelectLayout(container, entries.length);
+  entries.forEach((entry, i) => {
+    const tile = tiles[i];
+    const isHovered = !entry.locked &&
+      mouseX >= tile.x && mouseX <= tile.x + tile.width &&
+      mouseY >= tile.y && mouseY <= tile.y + tile.height;
+    const tileCenterX = tile.x + tile.width / 2;
+
+    ctx.globalAlpha = entry.locked ? 0.45 : 1;
+    ctx.fillStyle = `rgba(${primary.r}, ${primary.g}, ${primary.b}, ${isHovered ? 0.45 : 0.25})`;
+    ctx.beginPath();
+    ctx.roundRect(tile.x, tile.y, tile.width, tile.height, 10);
+    ctx.fill();
+    ctx.strokeStyle = `rgba(${primary.r}, ${primary.g}, ${primary.b}, ${isHovered ? 0.8 : 0.5})`;
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+
+    ctx.fillStyle = nightMode ? "#E8F0F8" : "#3D5A3A";
+    ctx.font = 'bold 20px "Segoe UI", sans-serif';
+    ctx.fillText(entry.locked ? "🔒" : `${i + 1}`, tileCenterX, tile.y + 28);
+
+    ctx.font = '10px "Segoe UI", sans-serif';
+    ctx.fillText(entry.level.name, tileCenterX, tile.y + 45, tile.width - 8);
+
+    drawStars(ctx, tileCenterX, tile.y + 58, entry.stars, 6, nightMode);
+  });
+
+  ctx.restore();
+}
+
+// Daily archive calendar: the month with arrows either side, then a
+// Monday-first grid of its days. Shared with mochi.ts for hit testing.
+export interface ArchiveCalendarLayout {
+  previous: { x: number; y: number; width: number; height: number } | null; // Null at the launch month
+  next: { x: number; y: number; width: number; height: number } | null; // Null at the current month
+  days: { date: string; playable: boolean; x: number; y: number; width: number; height: number }[];
+  columnCenters: number[]; // Monday to Sunday
+}
+
+export function getArchiveCalendarLayout(container: Container, month: string): ArchiveCalendarLayout {
+  const columns = 7;
+  const tileWidth = 36;
+  const tileHeight = 32;
+  const gap = 4;
+  const gridWidth = columns * tileWidth + (columns - 1) * gap;
+  const left = container.x + (container.width - gridWidth) / 2;
+  const top = container.y + 130;
+  const today = getTodayString();
+
+  const dates = getMonthDates(month);
+  const firstWeekday = (new Date(`${dates[0]}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const arrow = { y: container.y + 74, width: 32, height: 28 };
+
+  return {
+    previous: month > LAUNCH_DAY.slice(0, 7) ? { ...arrow, x: left } : null,
+    next: month < today.slice(0, 7) ? { ...arrow, x: left + gridWidth - arrow.width } : null,
+    days: dates.map((date, i) => {
+      const cell = firstWeekday + i;
+      return {
+        date,
+        playable: isPlayableDailyDate(date, today),
+        x: left + (cell % columns) * (tileWidth + gap),
+        y: top + Math.floor(cell / columns) * (tileHeight + gap),
+        width: tileWidth,
+        height: tileHeight,
+      };
+    }),
+    columnCenters: Array.from({ length: columns }, (_, i) => left + i * (tileWidth + gap) + tileWidth / 2),
+  };
+}
+
+// Daily archive, drawn on the frosted container. `selected` is the day on the
+// board; days with a result in `history` get a dot in their highest tier's colour.
+function drawArchiveCalendar(
+  ctx: CanvasRenderingContext2D,
+  container: Container,
+  month: string,
+  selected: string | undefined,
+  history: DailyHistory,
+  mouseX: number,
+  mouseY: number,
+  nightMode: boolean,
+): void {
+  const centerX = container.x + container.width / 2;
+  const primary = nightMode ? { r: 100, g: 140, b: 180 } : { r: 122, g: 155, b: 109 };
+  const textColor = nightMode ? "#E8F0F8" : "#3D5A3A";
+  const mutedColor = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
+  const isOver = (rect: { x: number; y: number; width: number; height: number }) =>
+    mouseX >= rect.x && mouseX <= rect.x + rect.width && mouseY >= rect.y && mouseY <= rect.y + rect.height;
+  const layout = getArchiveCalendarLayout(container, month);
+  const today = getTodayString();
+
+  ctx.save();
+  ctx.textAlign = "center";
+
+  ctx.font = 'bold 26px "Segoe UI", sans-serif';
+  ctx.fillStyle = nightMode ? "#E8E4E0" : "#3D5A3A";
+  ctx.fillText("Daily Archive", centerX, container.y + 50);
+
+  // Month, with arrows to the neighbouring months that have dailies
+  const monthLabel = new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+  ctx.font = 'bold 16px "Segoe UI", sans-serif';
+  ctx.fillStyle = textColor;
+  ctx.fillText(monthLabel, centerX, container.y + 93);
+  for (const [rect, label] of [[layout.previous, "‹"], [layout.next, "›"]] as const) {
+    if (!rect) continue;
+    ctx.fillStyle = `rgba(${primary.r}, ${primary.g}, ${primary.b}, ${isOver(rect) ? 0.45 : 0.25})`;
+    ctx.beginPath();
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, 8);
+    ctx.fill();
+    ctx.fillStyle = textColor;
+    ctx.font = 'bold 20px "Segoe UI", sans-serif';
+    ctx.fillText(label, rect.x + rect.width / 2, rect.y + 20);
+  }
+
+  // Weekday initials over the first week's columns
+  ctx.font = '11px "Segoe UI", sans-serif';
+  ctx.fillStyle = mutedColor;
+  ["M", "T", "W", "T", "F", "S", "S"].forEach((initial, i) => {
+    ctx.fillText(initial, layout.columnCenters[i], container.y + 122);
+  });
+
+  for (const day of layout.days) {
+    const dayCenterX = day.x + day.width / 2;
+    const isHovered = day.playable && isOver(day);
+
+    if (day.playable) {
+      const alpha = day.date === selected ? 0.6 : isHovered ? 0.45 : 0.25;
+      ctx.fillStyle = `rgba(${primary.r}, ${primary.g}, ${primary.b}, ${alpha})`;
+      ctx.beginPath();
+      ctx.roundRect(day.x, day.y, day.width, day.height, 8);
+      ctx.fill();
+      if (day.date === today) {
+        ctx.strokeStyle = `rgba(${primary.r}, ${primary.g}, ${primary.b}, 0.9)`;
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+    }
+
+    ctx.fillStyle = day.playable ? textColor : mutedColor;
+    ctx.globalAlpha = day.playable ? 1 : 0.4;
+    ctx.font = day.date === today ? 'bold 13px "Segoe UI", sans-serif' : '13px "Segoe UI", sans-serif';
+    const result = history[day.date];
+    ctx.fillText(String(Number(day.date.slice(8))), dayCenterX, day.y + day.height / 2 + (result ? 2 : 5));
+    ctx.globalAlpha = 1;
+
+    if (result) {
+      ctx.fillStyle = mochiTiers[result.highestTier]?.color.primary ?? textColor;
+      ctx.beginPath();
+      ctx.arc(dayCenterX, day.y + day.height - 6, 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  }
+
+  ctx.font = '12px "Segoe UI", sans-serif';
+  ctx.fillStyle = mutedColor;
+  ctx.fillText("Past days are for fun - they aren't ranked", centerX, container.y + container.height - 28);
+
+  ctx.restore();
+}
+
+// Player name editor: the text field, then Cancel and Save. Shared with
+// mochi.ts for hit testing.
+export interface NameEditorLayout {
+  field: { x: number; y: number; width: number; height: number };
+  cancel: { x: number; y: number; width: number; height: number };
+  save: { x: number; y: number; width: number; height: number };
+}
+
+export function getNameEditorLayout(container: Container): NameEditorLayout {
+  const left = container.x + container.wallThickness + 14;
+  const width = container.width - (container.wallThickness + 14) * 2;
+  const buttonWidth = Math.min(110, (width - 12) / 2);
+  const centerX = container.x + container.width / 2;
+  const buttonY = container.y + 258;
+  return {
+    field: { x: left, y: container.y + 78, width, height: 40 },
+    cancel: { x: centerX - 6 - buttonWidth, y: buttonY, width: buttonWidth, height: 36 },
+    save: { x: centerX + 6, y: buttonY, width: buttonWidth, height: 36 },
+  };
+}
+
+// The name editor, drawn on the frosted container: the draft with its caret,
+// whether it can be used, and how it will read on the leaderboard
+function drawNameEditor(
+  ctx: CanvasRenderingContext2D,
+  container: Container,
+  editor: NameEditor,
+  leaderboard: LeaderboardEntry[] | undefined,
+  mouseX: number,
+  mouseY: number,
+  nightMode: boolean,
+): void {
+  const centerX = container.x + container.width / 2;
+  const primary = nightMode ? { r: 100, g: 140, b: 180 } : { r: 122, g: 155, b: 109 };
+  const textColor = nightMode ? "#E8F0F8" : "#3D5A3A";
+  const mutedColor = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
+  const isOver = (rect: { x: number; y: number; width: number; height: number }) =>
+    mouseX >= rect.x && mouseX <= rect.x + rect.width && mouseY >= rect.y && mouseY <= rect.y + rect.height;
+  const layout = getNameEditorLayout(container);
+  const { field } = layout;
+
+  ctx.save();
+  ctx.textAlign = "center";
+
+  ctx.font = 'bold 26px "Segoe UI", sans-serif';
+  ctx.fillStyle = nightMode ? "#E8E4E0" : "#3D5A3A";
+  ctx.fillText("Your Name", centerX, container.y + 50);
+
+  // Text field, scrolled so the caret stays in view
+  ctx.fillStyle = nightMode ? "rgba(30, 40, 55, 0.6)" : "rgba(255, 255, 255, 0.7)";
+  ctx.strokeStyle = `rgba(${primary.r}, ${primary.g}, ${primary.b}, 0.8)`;
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.roundRect(field.x, field.y, field.width, field.height, 8);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(field.x + 4, field.y, field.width - 8, field.height);
+  ctx.clip();
+  ctx.font = '18px "Segoe UI", sans-serif';
+  ctx.textAlign = "left";
+  const caretX = ctx.measureText(editor.draft.slice(0, editor.caret)).width;
+  const scroll = Math.max(0, caretX - (field.width - 24));
+  ctx.fillStyle = textColor;
+  ctx.fillText(editor.draft, field.x + 12 - scroll, field.y + 27);
+  if (Math.floor(performance.now() / 530) % 2 === 0) {
+    ctx.fillRect(field.x + 12 - scroll + caretX, field.y + 10, 1.5, 22);
+  }
+  ctx.restore();
+
+  // What's wrong with the name, or whether it's free
+  const status = editor.problem
+    ? { text: editor.problem, color: nightMode ? "#F0A090" : "#B5523B" }
+    : editor.availability === "unavailable"
+      ? { text: "Not available", color: nightMode ? "#F0A090" : "#B5523B" }
+      : editor.availability === "checking"
+        ? { text: "Checking…", color: mutedColor }
+        : editor.availability === "available"
+          ? { text: "✓ Available", color: textColor }
+          : { text: "Couldn't check right now", color: mutedColor };
+  ctx.font = '12px "Segoe UI", sans-serif';
+  ctx.textAlign = "left";
+  ctx.fillStyle = status.color;
+  ctx.fillText(status.text, field.x + 2, field.y + field.height + 18);
+  ctx.textAlign = "right";
+  ctx.fillStyle = mutedColor;
+  ctx.fillText(`${editor.draft.trim().length}/${MAX_NAME_LENGTH}`, field.x + field.width - 2, field.y - 8);
+
+  // Preview: the player's line on the current board, under the new name
+  ctx.textAlign = "center";
+  ctx.fillText("On the leaderboard", centerX, container.y + 180);
+  const rank = leaderboard ? leaderboard.findIndex((e) => e.isPlayer) : -1;
+  const entry = rank >= 0 ? leaderboard?.[rank] : undefined;
+  const rowWidth = LEADERBOARD_PANEL.width;
+  const rowX = centerX - rowWidth / 2 + 6;
+  ctx.fillStyle = nightMode ? "rgba(245, 240, 230, 0.85)" : "rgba(255, 255, 255, 0.6)";
+  ctx.beginPath();
+  ctx.roundRect(rowX - 14, container.y + 192, rowWidth + 16, 38, 10);
+  ctx.fill();
+  drawLeaderboardRow(
+    ctx,
+    rowX,
+    container.y + 216,
+    rowWidth,
+    entry ? `${rank + 1}` : "–",
+    editor.draft.trim(),
+    entry ? entry.score.toString() : "–",
+    true,
+    1,
+  );
+
+  // Cancel | Save - Save only once the name can be used
+  const canSave = !editor.problem && editor.availability !== "unavailable" && !editor.saving;
+  for (const [rect, label, enabled] of [
+    [layout.cancel, "Cancel", true],
+    [layout.save, editor.saving ? "Saving…" : "Save", canSave],
+  ] as const) {
+    const alpha = !enabled ? 0.12 : isOver(rect) ? 0.45 : 0.25;
+    ctx.fillStyle = `rgba(${primary.r}, ${primary.g}, ${primary.b}, ${alpha})`;
+    ctx.beginPath();
+    ctx.roundRect(rect.x, rect.y, rect.width, rect.height, 10);
+    ctx.fill();
+    ctx.font = 'bold 15px "Segoe UI", sans-serif';
+    ctx.textAlign = "center";
+    ctx.fillStyle = enabled ? textColor : mutedColor;
+    ctx.fillText(label, rect.x + rect.width / 2, rect.y + 23);
+  }
+
+  ctx.font = '12px "Segoe UI", sans-serif';
+  ctx.fillStyle = mutedColor;
+  ctx.fillText("Your scores keep their place under the new name", centerX, container.y + container.height - 28);
+
   ctx.restore();
 }
 
@@ -1685,6 +2371,13 @@ export function drawMochi(context: CanvasContext, mochi: Mochi, isPreview: boole
     drawFace(ctx, cx, cy, radius, emotion, squishAmount, color.cheek, blinkState, lookDirection);
   }
 
+  // Zen: pale out while resting above the line, ahead of dissolving
+  if (mochi.overflowTicks > 0) {
+    const fade = Math.min(1, mochi.overflowTicks / DISSOLVE_DELAY_TICKS);
+    ctx.fillStyle = `rgba(255, 255, 255, ${fade * 0.6})`;
+    ctx.fill(path);
+  }
+
   if (merging) {
     ctx.restore();
     ctx.globalAlpha = 1;
@@ -1910,30 +2603,135 @@ function drawProgressionWheel(
   }
 }
 
-function drawLeaderboard(
-  context: CanvasContext,
-  leaderboard: LeaderboardEntry[],
-  playerName: string,
-  container: Container,
-): void {
-  const { ctx } = context;
-
-  const panelX = 20;
-  const panelY = 110; // Below score/name/best area
-  const panelWidth = 180;
-  const maxEntries = 5;
+// Leaderboard panel, top left under the score
+const LEADERBOARD_PANEL = { x: 20, y: 110, width: 180 }; // y is the title's baseline
 
-  // Calculate fade zone - more aggressive fade on mobile for spacing
+// The panel fades out above the container - sooner on mobile, for spacing
+function getLeaderboardOpacity(context: CanvasContext, container: Container, y: number): number {
   const isMobile = context.width < 500 || context.height < 700;
   const fadeStartY = isMobile ? container.y - 120 : container.y - 40;
   const fadeEndY = isMobile ? container.y - 40 : container.y + 20;
+  if (y < fadeStartY) return 1;
+  if (y > fadeEndY) return 0;
+  return 1 - (y - fadeStartY) / (fadeEndY - fadeStartY);
+}
 
-  // Helper to get opacity based on Y position
-  const getYOpacity = (y: number): number => {
-    if (y < fadeStartY) return 1;
-    if (y > fadeEndY) return 0;
-    return 1 - (y - fadeStartY) / (fadeEndY - fadeStartY);
-  };
+// The pencil beside the leaderboard title that opens the name editor. Only on
+// the results, and null while the title is faded out. Shared with mochi.ts for
+// hit testing.
+export function getNameEditButton(
+  context: CanvasContext,
+  gameState: GameState,
+): { x: number; y: number; width: number; height: number } | null {
+  if (!gameState.gameOver || gameState.isReplay || gameState.nameEditor || gameState.archiveMonth) return null;
+  if (getLeaderboardOpacity(context, gameState.container, LEADERBOARD_PANEL.y) <= 0) return null;
+  const size = 22;
+  return {
+    x: LEADERBOARD_PANEL.x + LEADERBOARD_PANEL.width + 4 - size / 2,
+    y: LEADERBOARD_PANEL.y - 5 - size / 2,
+    width: size,
+    height: size,
+  };
+}
+
+// Tabs under the leaderboard title: everyone's board, the group being shown
+// (or the first of the player's groups; tapped again it moves on to the next),
+// then "+ Group" to start one or "Invite" to copy the group's link. None while
+// the row is faded out. Shared with mochi.ts for hit testing.
+export interface LeaderboardTab {
+  kind: "global" | "group" | "create" | "invite";
+  label: string;
+  active: boolean;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const LEADERBOARD_TABS_HEIGHT = 26; // Room the tab row takes above the entries
+
+export function getLeaderboardTabs(context: CanvasContext, container: Container, scope: LeaderboardScope): LeaderboardTab[] {
+  const y = LEADERBOARD_PANEL.y + 8;
+  const height = 20;
+  if (getLeaderboardOpacity(context, container, y + height) <= 0) return [];
+
+  const group = scope.group ?? scope.groups[0] ?? null;
+  const tabs: Omit<LeaderboardTab, "x" | "y" | "height">[] = [
+    { kind: "global", label: "Global", active: scope.group === null, width: 52 },
+    ...(group ? [{ kind: "group" as const, label: group, active: scope.group !== null, width: 64 }] : []),
+    scope.group
+      ? { kind: "invite", label: "Invite", active: false, width: 52 }
+      : { kind: "create", label: "+ Group", active: false, width: 58 },
+  ];
+
+  let x = LEADERBOARD_PANEL.x - 6;
+  return tabs.map((tab) => {
+    const placed = { ...tab, x, y, height };
+    x += tab.width + 4;
+    return placed;
+  });
+}
+
+// One line of the leaderboard: rank, name (cut short to fit) and score, with a
+// soft highlight on the player's own
+function drawLeaderboardRow(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  rank: string,
+  name: string,
+  score: string,
+  isPlayer: boolean,
+  opacity: number,
+): void {
+  // Subtle highlight for player's entry
+  if (isPlayer) {
+    ctx.fillStyle = `rgba(140, 170, 130, ${0.25 * opacity})`;
+    ctx.beginPath();
+    ctx.roundRect(x - 6, y - 14, width, 22, 6);
+    ctx.fill();
+  }
+
+  // Rank - more visible
+  const baseOpacity = isPlayer ? 0.85 : 0.6;
+  ctx.fillStyle = `rgba(60, 90, 50, ${baseOpacity * opacity})`;
+  ctx.font = isPlayer ? '600 14px "Segoe UI", sans-serif' : '14px "Segoe UI", sans-serif';
+  ctx.textAlign = "left";
+  ctx.fillText(rank, x, y);
+
+  // Name (truncated)
+  const displayName = name.length > 12 ? name.slice(0, 11) + "…" : name;
+  ctx.fillText(displayName, x + 26, y);
+
+  // Score - aligned right
+  ctx.textAlign = "right";
+  ctx.fillText(score, x + width - 10, y);
+  ctx.textAlign = "left";
+}
+
+function drawLeaderboard(
+  context: CanvasContext,
+  leaderboard: LeaderboardEntry[],
+  container: Container,
+  pendingSync: number,
+  editButton: { x: number; y: number; width: number; height: number } | null,
+  tabs: LeaderboardTab[],
+  notice: string | null,
+  mouseX: number,
+  mouseY: number,
+): void {
+  const { ctx } = context;
+
+  const { x: panelX, y: panelY, width: panelWidth } = LEADERBOARD_PANEL; // Below score/name/best area
+  const maxEntries = 5;
+
+  // Helper to get opacity based on Y position
+  const getYOpacity = (y: number): number => getLeaderboardOpacity(context, container, y);
+
+  // Entries start below the tabs, when there are any
+  const rowsY = panelY + (tabs.length > 0 ? LEADERBOARD_TABS_HEIGHT : 0);
+  const inGroup = tabs.some((tab) => tab.kind === "group" && tab.active);
 
   // Title
   const titleOpacity = getYOpacity(panelY);
@@ -1942,12 +2740,50 @@ function drawLeaderboard(
     ctx.font = '13px "Segoe UI", sans-serif';
     ctx.textAlign = "left";
     ctx.fillText("Leaderboard", panelX, panelY);
+
+    // Scores still waiting to reach the server (see score-queue.ts)
+    if (pendingSync > 0) {
+      const titleWidth = ctx.measureText("Leaderboard").width;
+      ctx.fillStyle = `rgba(200, 140, 60, ${0.8 * titleOpacity})`;
+      ctx.font = '11px "Segoe UI", sans-serif';
+      ctx.fillText(`⟳ ${pendingSync} pending sync`, panelX + titleWidth + 8, panelY);
+    }
+  }
+
+  // Pencil to change the player's name
+  if (editButton) {
+    const isHovered = mouseX >= editButton.x && mouseX <= editButton.x + editButton.width &&
+                      mouseY >= editButton.y && mouseY <= editButton.y + editButton.height;
+    ctx.fillStyle = `rgba(140, 170, 130, ${(isHovered ? 0.5 : 0.25) * titleOpacity})`;
+    ctx.beginPath();
+    ctx.arc(editButton.x + editButton.width / 2, editButton.y + editButton.height / 2, editButton.width / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = `rgba(60, 90, 50, ${0.75 * titleOpacity})`;
+    ctx.font = '12px "Segoe UI", sans-serif';
+    ctx.textAlign = "center";
+    ctx.fillText("✎", editButton.x + editButton.width / 2, editButton.y + editButton.height / 2 + 4);
+    ctx.textAlign = "left";
   }
 
+  // Global / group tabs
+  for (const tab of tabs) {
+    const tabOpacity = getYOpacity(tab.y + tab.height);
+    const isHovered = mouseX >= tab.x && mouseX <= tab.x + tab.width && mouseY >= tab.y && mouseY <= tab.y + tab.height;
+    ctx.fillStyle = `rgba(140, 170, 130, ${(tab.active ? 0.45 : isHovered ? 0.3 : 0.15) * tabOpacity})`;
+    ctx.beginPath();
+    ctx.roundRect(tab.x, tab.y, tab.width, tab.height, 10);
+    ctx.fill();
+    ctx.fillStyle = `rgba(60, 90, 50, ${(tab.active ? 0.9 : 0.65) * tabOpacity})`;
+    ctx.font = tab.active ? '600 11px "Segoe UI", sans-serif' : '11px "Segoe UI", sans-serif';
+    ctx.textAlign = "center";
+    ctx.fillText(tab.label, tab.x + tab.width / 2, tab.y + 14);
+  }
+  ctx.textAlign = "left";
+
   // Entries - soft and cozy
   if (leaderboard.length === 0) {
-    const emptyY1 = panelY + 28;
-    const emptyY2 = panelY + 48;
+    const emptyY1 = rowsY + 28;
+    const emptyY2 = rowsY + 48;
     const opacity1 = getYOpacity(emptyY1);
     const opacity2 = getYOpacity(emptyY2);
 
@@ -1958,11 +2794,11 @@ function drawLeaderboard(
     }
     if (opacity2 > 0) {
       ctx.fillStyle = `rgba(60, 90, 50, ${0.55 * opacity2})`;
-      ctx.fillText("be the first!", panelX, emptyY2);
+      ctx.fillText(inGroup ? "invite some friends!" : "be the first!", panelX, emptyY2);
     }
   } else {
     // Find player's rank in full leaderboard
-    const playerRank = leaderboard.findIndex((e) => e.name === playerName);
+    const playerRank = leaderboard.findIndex((e) => e.isPlayer);
     const playerInTop = playerRank >= 0 && playerRank < maxEntries - 1; // Top 4
 
     // Build display list: top entries + player if not in top
@@ -1980,7 +2816,7 @@ function drawLeaderboard(
       displayEntries.push({
         entry: leaderboard[i],
         rank: i + 1,
-        isPlayer: leaderboard[i].name === playerName,
+        isPlayer: !!leaderboard[i].isPlayer,
         showGap: false,
       });
     }
@@ -2001,7 +2837,7 @@ function drawLeaderboard(
 
       // Show gap indicator before player's entry if needed
       if (showGap) {
-        const gapY = panelY + 26 + yOffset * 26;
+        const gapY = rowsY + 26 + yOffset * 26;
         const gapOpacity = getYOpacity(gapY);
         if (gapOpacity > 0) {
           ctx.fillStyle = `rgba(60, 90, 50, ${0.45 * gapOpacity})`;
@@ -2013,7 +2849,7 @@ function drawLeaderboard(
         yOffset++;
       }
 
-      const y = panelY + 26 + yOffset * 26;
+      const y = rowsY + 26 + yOffset * 26;
       const yOpacity = getYOpacity(y);
 
       // Skip if fully faded
@@ -2022,42 +2858,136 @@ function drawLeaderboard(
         continue;
       }
 
-      // Subtle highlight for player's entry
-      if (isPlayer && yOpacity > 0) {
-        ctx.fillStyle = `rgba(140, 170, 130, ${0.25 * yOpacity})`;
-        ctx.beginPath();
-        ctx.roundRect(panelX - 6, y - 14, panelWidth, 22, 6);
-        ctx.fill();
-      }
-
-      // Rank - more visible
-      const baseOpacity = isPlayer ? 0.85 : 0.6;
-      ctx.fillStyle = `rgba(60, 90, 50, ${baseOpacity * yOpacity})`;
-      ctx.font = isPlayer ? '600 14px "Segoe UI", sans-serif' : '14px "Segoe UI", sans-serif';
-      ctx.textAlign = "left";
-      ctx.fillText(`${rank}`, panelX, y);
-
-      // Name (truncated)
-      const displayName = entry.name.length > 12 ? entry.name.slice(0, 11) + "…" : entry.name;
-      ctx.fillText(displayName, panelX + 26, y);
-
-      // Score - aligned right
-      ctx.textAlign = "right";
-      ctx.fillText(entry.score.toString(), panelX + panelWidth - 10, y);
+      drawLeaderboardRow(ctx, panelX, y, panelWidth, `${rank}`, entry.name, entry.score.toString(), isPlayer, yOpacity);
 
       yOffset++;
     }
   }
 
+  // A brief note about groups ("Invite link copied"), over the top entry
+  const noticeOpacity = getYOpacity(rowsY + 14);
+  if (notice && noticeOpacity > 0) {
+    ctx.fillStyle = `rgba(250, 248, 240, ${0.95 * noticeOpacity})`;
+    ctx.beginPath();
+    ctx.roundRect(panelX - 6, rowsY + 4, panelWidth, 22, 6);
+    ctx.fill();
+    ctx.fillStyle = `rgba(60, 90, 50, ${0.85 * noticeOpacity})`;
+    ctx.font = '12px "Segoe UI", sans-serif';
+    ctx.textAlign = "center";
+    ctx.fillText(notice, panelX - 6 + panelWidth / 2, rowsY + 19);
+  }
+
   ctx.textAlign = "left";
 }
 
+// Online versus: a small live copy of the opponent's board left of the
+// container, below the next preview. Narrow screens only get their score.
+const OPPONENT_VIEW_SCALE = 0.35;
+
+function drawOnlineOpponent(
+  ctx: CanvasRenderingContext2D,
+  container: Container,
+  online: OnlineState,
+  nightMode: boolean,
+): void {
+  const name = online.opponentName ?? "Opponent";
+  const textColor = nightMode ? "rgba(200, 210, 220, 0.8)" : "rgba(90, 120, 80, 0.8)";
+
+  ctx.save();
+  if (container.x < 150) {
+    ctx.font = '13px "Segoe UI", sans-serif';
+    ctx.fillStyle = textColor;
+    ctx.textAlign = "right";
+    ctx.fillText(`${name}: ${online.opponentScore.toLocaleString()}`, container.x + container.width, container.y - 10);
+    ctx.restore();
+    return;
+  }
+
+  const width = BOARD.width * OPPONENT_VIEW_SCALE;
+  const height = BOARD.height * OPPONENT_VIEW_SCALE;
+  const x = container.x - 50 - width / 2;
+  const y = container.y + 120;
+
+  ctx.font = '12px "Segoe UI", sans-serif';
+  ctx.fillStyle = textColor;
+  ctx.textAlign = "center";
+  ctx.fillText(name.length > 14 ? name.slice(0, 13) + "…" : name, x + width / 2, y - 22);
+  ctx.font = 'bold 13px "Segoe UI", sans-serif';
+  ctx.fillText(online.opponentScore.toLocaleString(), x + width / 2, y - 6);
+
+  ctx.fillStyle = nightMode ? "rgba(60, 75, 95, 0.5)" : "rgba(210, 225, 200, 0.4)";
+  ctx.strokeStyle = nightMode ? "rgba(150, 170, 190, 0.4)" : "rgba(100, 130, 90, 0.35)";
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, 6);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.beginPath();
+  ctx.roundRect(x, y, width, height, 6);
+  ctx.clip();
+  for (const [tier, mochiX, mochiY] of online.opponentMochis) {
+    const tierData = mochiTiers[tier];
+    if (!tierData) continue;
+    ctx.fillStyle = tierData.color.primary;
+    ctx.beginPath();
+    ctx.arc(x + mochiX * OPPONENT_VIEW_SCALE, y + mochiY * OPPONENT_VIEW_SCALE, tierData.radius * OPPONENT_VIEW_SCALE, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.restore();
+}
+
+const MODE_LABELS: Record<GameMode, string> = {
+  daily: "Daily",
+  practice: "Free Play",
+  rush: "Mochi Rush",
+  zen: "Zen",
+  puzzle: "Puzzles",
+  online: "Online Versus",
+};
+
+// Mochi Rush countdown, centred above the container. Goes red in the last ten
+// seconds and flashes when an overflow takes time off.
+const clockAnim = { lastTicksLeft: 0, penaltyFlash: 0 };
+
+function drawCountdown(ctx: CanvasRenderingContext2D, container: Container, ticksLeft: number, nightMode: boolean): void {
+  // The clock only ever jumps down by a penalty - a normal frame moves it a few ticks
+  if (clockAnim.lastTicksLeft - ticksLeft > 60) {
+    clockAnim.penaltyFlash = 1;
+  }
+  clockAnim.lastTicksLeft = ticksLeft;
+  clockAnim.penaltyFlash *= 0.95;
+
+  const seconds = Math.ceil(ticksLeft / 120);
+  const text = `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  const urgent = seconds <= 10;
+  const x = container.x + container.width / 2;
+  const y = container.y - 16;
+  const scale = 1 + clockAnim.penaltyFlash * 0.25 + (urgent && ticksLeft > 0 ? Math.max(0, Math.sin(ticksLeft / 120 * Math.PI * 2)) * 0.08 : 0);
+
+  ctx.save();
+  ctx.translate(x, y);
+  ctx.scale(scale, scale);
+  ctx.font = 'bold 22px "Segoe UI", sans-serif';
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  if (urgent || clockAnim.penaltyFlash > 0.1) {
+    ctx.fillStyle = "#D9534F";
+  } else {
+    ctx.fillStyle = nightMode ? "#C8D8E8" : "#4A6741";
+  }
+  ctx.fillText(text, 0, 0);
+  ctx.restore();
+}
+
 export function drawUI(
   context: CanvasContext,
   gameState: GameState,
   leaderboard?: LeaderboardEntry[],
   playerName?: string,
   mochis?: Mochi[],
+  pendingSync: number = 0,
+  scope?: LeaderboardScope,
 ): void {
   const { ctx, width } = context;
   const { score, highScore, nextTier, gameOver, container, mouseX, mouseY } = gameState;
@@ -2076,19 +3006,20 @@ export function drawUI(
   // Mode toggle switch (fixed position, not dependent on score width)
   const { gameMode } = gameState;
   const fixedScoreWidth = 140; // Fixed width to accommodate scores up to 99,999
-  const toggleX = 20 + fixedScoreWidth + 50;
+  const toggleX = 20 + fixedScoreWidth + 70;
   const toggleY = 28;
-  drawModeToggle(ctx, toggleX, toggleY, gameMode === "daily", gameState.nightMode);
+  drawModeToggle(ctx, toggleX, toggleY, gameMode, gameState.nightMode);
 
   // Mode label underneath toggle
   ctx.font = '10px "Segoe UI", sans-serif';
   ctx.fillStyle = gameState.nightMode ? "rgba(150, 170, 190, 0.6)" : "rgba(90, 120, 80, 0.6)";
   ctx.textAlign = "center";
-  ctx.fillText(gameMode === "daily" ? "Daily" : "Free Play", toggleX, toggleY + 26);
+  const modeLabel = MODE_LABELS[gameMode];
+  ctx.fillText(gameState.isReplay ? `${modeLabel} Replay` : modeLabel, toggleX, toggleY + 26);
   ctx.textAlign = "left"; // Reset for subsequent text
 
   // Info icon next to toggle (explains daily mode)
-  const infoX = toggleX + 48;
+  const infoX = toggleX + MODE_TOGGLE_BOUNDS.width / 2 + 13;
   const infoY = toggleY;
   const infoRadius = 10;
   const infoDx = mouseX - infoX;
@@ -2126,7 +3057,9 @@ export function drawUI(
   ctx.fillStyle = "#6B8A5E";
   ctx.fillText(`Best: ${highScore}`, 20, 82);
 
-  // Next mochi preview - position changes based on screen size
+  // Next mochi preview - position changes based on screen size. A puzzle's last
+  // drop has nothing after it.
+  const hasNext = gameState.dropsLeft === null || gameState.dropsLeft > 1;
   let previewX: number;
   let previewY: number;
   let labelOffset: number;
@@ -2143,36 +3076,38 @@ export function drawUI(
     labelOffset = 45;
   }
 
-  // Soft, cozy "next" label
-  ctx.fillStyle = "rgba(90, 120, 80, 0.5)";
-  ctx.font = '12px "Segoe UI", sans-serif';
-  ctx.textAlign = "center";
-  ctx.fillText("next", previewX, previewY - labelOffset);
+  if (hasNext) {
+    // Soft, cozy "next" label
+    ctx.fillStyle = "rgba(90, 120, 80, 0.5)";
+    ctx.font = '12px "Segoe UI", sans-serif';
+    ctx.textAlign = "center";
+    ctx.fillText("next", previewX, previewY - labelOffset);
 
-  // Preview background - very soft, subtle circle
-  ctx.fillStyle = "rgba(210, 225, 200, 0.4)";
-  ctx.beginPath();
-  ctx.arc(previewX, previewY, 35, 0, Math.PI * 2);
-  ctx.fill();
+    // Preview background - very soft, subtle circle
+    ctx.fillStyle = "rgba(210, 225, 200, 0.4)";
+    ctx.beginPath();
+    ctx.arc(previewX, previewY, 35, 0, Math.PI * 2);
+    ctx.fill();
 
-  // Draw preview mochi
-  const tierData = mochiTiers[nextTier];
-  const previewScale = 30 / tierData.radius;
-  ctx.save();
-  ctx.translate(previewX, previewY);
-  ctx.scale(previewScale, previewScale);
+    // Draw preview mochi
+    const tierData = mochiTiers[nextTier];
+    const previewScale = 30 / tierData.radius;
+    ctx.save();
+    ctx.translate(previewX, previewY);
+    ctx.scale(previewScale, previewScale);
 
-  const gradient = ctx.createRadialGradient(-5, -5, 0, 0, 0, tierData.radius);
-  gradient.addColorStop(0, tierData.color.highlight);
-  gradient.addColorStop(0.3, tierData.color.primary);
-  gradient.addColorStop(1, tierData.color.secondary);
+    const gradient = ctx.createRadialGradient(-5, -5, 0, 0, 0, tierData.radius);
+    gradient.addColorStop(0, tierData.color.highlight);
+    gradient.addColorStop(0.3, tierData.color.primary);
+    gradient.addColorStop(1, tierData.color.secondary);
 
-  ctx.fillStyle = gradient;
-  ctx.beginPath();
-  ctx.arc(0, 0, tierData.radius, 0, Math.PI * 2);
-  ctx.fill();
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.arc(0, 0, tierData.radius, 0, Math.PI * 2);
+    ctx.fill();
 
-  ctx.restore();
+    ctx.restore();
+  }
 
   // Draw progression wheel on the right (only on larger screens)
   if (!isSmallScreen) {
@@ -2186,14 +3121,47 @@ export function drawUI(
     );
   }
 
+  if (gameState.ticksLeft !== null) {
+    drawCountdown(ctx, container, gameState.ticksLeft, gameState.nightMode);
+  }
+
+  // Puzzle goal and drops remaining, above the container
+  if (gameState.level && gameState.dropsLeft !== null && !gameOver) {
+    const { level, dropsLeft } = gameState;
+    ctx.save();
+    ctx.textAlign = "center";
+    ctx.font = 'bold 15px "Segoe UI", sans-serif';
+    ctx.fillStyle = gameState.nightMode ? "#C8D8E8" : "#4A6741";
+    ctx.fillText(describeGoal(level.goal, level.drops.length), container.x + container.width / 2, container.y - 26);
+    ctx.font = '12px "Segoe UI", sans-serif';
+    ctx.fillStyle = dropsLeft <= 1 ? "#D9534F" : gameState.nightMode ? "rgba(150, 170, 190, 0.8)" : "rgba(90, 120, 80, 0.7)";
+    ctx.fillText(`${dropsLeft} drop${dropsLeft === 1 ? "" : "s"} left`, container.x + container.width / 2, container.y - 9);
+    ctx.restore();
+  }
+
+  // Online versus: the opponent's board, live
+  if (gameState.online && (gameState.online.status === "playing" || gameState.online.status === "finished")) {
+    drawOnlineOpponent(ctx, container, gameState.online, gameState.nightMode);
+  }
+
   // Draw leaderboard on the left (with vertical fade near container)
   if (leaderboard && playerName) {
-    drawLeaderboard(context, leaderboard, playerName, container);
+    drawLeaderboard(
+      context,
+      leaderboard,
+      container,
+      pendingSync,
+      getNameEditButton(context, gameState),
+      scope ? getLeaderboardTabs(context, container, scope) : [],
+      scope?.notice ?? null,
+      mouseX,
+      mouseY,
+    );
   }
 
   // Game over buttons - displayed below the container
   // (The frosted overlay and results are drawn directly on the container in render())
-  if (gameOver) {
+  if (gameOver && !gameState.archiveMonth) {
     const { gameMode, dailyChallenge, container } = gameState;
     const { hoveredButton, buttonHoverProgress, modalAnimationProgress } = gameState;
 
@@ -2214,7 +3182,7 @@ export function drawUI(
       x: number,
       y: number,
       style: "primary" | "secondary" | "tertiary" = "secondary",
-      buttonId: "daily" | "freeplay" | "share",
+      buttonId: NonNullable<HoveredButton>,
     ) => {
       const isHovered = hoveredButton === buttonId;
       const hoverAmount = isHovered ? easeOutCubic(buttonHoverProgress) : 0;
@@ -2295,16 +3263,43 @@ export function drawUI(
     const hasShareButton = gameMode === "daily" && !!dailyChallenge;
     const buttonSpacing = 130;
 
-    if (hasShareButton) {
+    if (gameMode === "puzzle") {
+      // Levels | Retry, plus Next once the level is won
+      const won = gameState.levelResult === "won";
+      const buttons: { text: string; id: NonNullable<HoveredButton> }[] = [
+        { text: "Levels", id: "levels" },
+        { text: "Retry", id: "retry" },
+      ];
+      if (won && gameState.nextLevel) {
+        buttons.push({ text: "Next", id: "next" });
+      }
+      const firstX = centerX - ((buttons.length - 1) * buttonSpacing) / 2;
+      buttons.forEach((button, i) => {
+        const primary = button.id === (won ? (gameState.nextLevel ? "next" : "levels") : "retry");
+        drawButton(button.text, firstX + i * buttonSpacing, buttonAreaY, primary ? "primary" : "secondary", button.id);
+      });
+    } else if (gameState.online) {
+      // Rematch while the opponent is still in the room, and Free Play
+      const { opponentName, ready } = gameState.online;
+      if (opponentName) {
+        drawButton(ready ? "Waiting…" : "Rematch", centerX - buttonSpacing / 2, buttonAreaY, "primary", "rematch");
+        drawButton("Free Play", centerX + buttonSpacing / 2, buttonAreaY, "secondary", "freeplay");
+      } else {
+        drawButton("Free Play", centerX, buttonAreaY, "primary", "freeplay");
+      }
+    } else if (hasShareButton) {
       if (dailyAlreadyPlayed) {
-        // Daily complete: just two buttons centered (Share | Free Play)
-        const shareX = centerX - buttonSpacing / 2;
-        const freePlayX = centerX + buttonSpacing / 2;
+        // Daily complete: Share | Archive | Free Play
+        const shareX = centerX - buttonSpacing;
+        const archiveX = centerX;
+        const freePlayX = centerX + buttonSpacing;
 
         const shareText = gameState.shareCopiedTimer > 0 ? "Copied!" : "Share";
         const shareStyle = gameState.shareCopiedTimer > 0 ? "primary" : "tertiary";
         drawButton(shareText, shareX, buttonAreaY, shareStyle, "share");
 
+        drawButton("Archive", archiveX, buttonAreaY, "secondary", "archive");
+
         drawButton("Free Play", freePlayX, buttonAreaY, "primary", "freeplay");
       } else {
         // Three buttons: Daily | Share | Free Play
@@ -2372,6 +3367,15 @@ export function drawUI(
       currentMode === "practice"
         ? "▸ Free Play: Unlimited random practice"
         : "  Free Play: Unlimited random practice",
+      currentMode === "rush"
+        ? "▸ Rush: Two minutes, quick drops, overflow costs time"
+        : "  Rush: Two minutes, quick drops, overflow costs time",
+      currentMode === "zen"
+        ? "▸ Zen: No game over, no scoreboard, just relax"
+        : "  Zen: No game over, no scoreboard, just relax",
+      currentMode === "puzzle"
+        ? "▸ Puzzles: Preset boards with goals to beat"
+        : "  Puzzles: Preset boards with goals to beat",
     ];
 
     const lineHeight = 20;
@@ -2531,9 +3535,13 @@ function drawWalkingCat(ctx: CanvasRenderingContext2D): void {
   ctx.restore();
 }
 
+// Modes in toggle order, left to right
+export const MODE_TOGGLE_MODES: GameMode[] = ["daily", "practice", "rush", "zen", "puzzle"];
+const MODE_TOGGLE_LABELS = ["D", "F", "R", "Z", "P"];
+
 // Toggle animation state
 const toggleAnim = {
-  knobPosition: 0, // 0 = daily (left), 1 = free play (right)
+  knobPosition: 0, // Index into MODE_TOGGLE_MODES: 0 = daily (left) ... 4 = puzzle (right)
   targetPosition: 0,
   squish: 0, // Squish effect when switching
   bounce: 0,
@@ -2544,16 +3552,18 @@ function drawModeToggle(
   ctx: CanvasRenderingContext2D,
   x: number,
   y: number,
-  isDaily: boolean,
+  mode: GameMode,
   nightMode: boolean,
 ): void {
-  const toggleWidth = 70;
-  const toggleHeight = 28;
+  const toggleWidth = MODE_TOGGLE_BOUNDS.width;
+  const toggleHeight = MODE_TOGGLE_BOUNDS.height;
   const knobRadius = 11;
   const padding = 4;
 
   // Animate knob position with spring physics
-  toggleAnim.targetPosition = isDaily ? 0 : 1;
+  // Online versus isn't on the toggle - the knob stays where it was
+  const stop = MODE_TOGGLE_MODES.indexOf(mode);
+  if (stop >= 0) toggleAnim.targetPosition = stop;
   const diff = toggleAnim.targetPosition - toggleAnim.knobPosition;
   toggleAnim.knobPosition += diff * 0.15;
   toggleAnim.bounce *= 0.85;
@@ -2628,29 +3638,25 @@ function drawModeToggle(
   ctx.lineWidth = 1.5;
   ctx.stroke();
 
-  // Labels with better visibility
+  // Knob stops, one per mode
+  const leftX = x - toggleWidth / 2 + knobRadius + padding;
+  const rightX = x + toggleWidth / 2 - knobRadius - padding;
+  const stopSpacing = (rightX - leftX) / (MODE_TOGGLE_MODES.length - 1);
+  const knobX = leftX + stopSpacing * toggleAnim.knobPosition;
+
+  // Labels with better visibility - the nearer the knob, the stronger
   ctx.font = '600 10px "Segoe UI", sans-serif';
   ctx.textAlign = "center";
   ctx.textBaseline = "middle";
 
-  // Daily label
-  const dailyAlpha = 0.4 + (1 - toggleAnim.knobPosition) * 0.4;
-  ctx.fillStyle = nightMode
-    ? `rgba(200, 230, 255, ${dailyAlpha})`
-    : `rgba(50, 80, 40, ${dailyAlpha})`;
-  ctx.fillText("D", x - toggleWidth / 2 + 13, y);
-
-  // Free play label
-  const freeAlpha = 0.4 + toggleAnim.knobPosition * 0.4;
-  ctx.fillStyle = nightMode
-    ? `rgba(200, 230, 255, ${freeAlpha})`
-    : `rgba(50, 80, 40, ${freeAlpha})`;
-  ctx.fillText("F", x + toggleWidth / 2 - 13, y);
-
-  // Calculate animated knob position
-  const leftX = x - toggleWidth / 2 + knobRadius + padding;
-  const rightX = x + toggleWidth / 2 - knobRadius - padding;
-  const knobX = leftX + (rightX - leftX) * toggleAnim.knobPosition;
+  MODE_TOGGLE_LABELS.forEach((label, i) => {
+    const nearness = Math.max(0, 1 - Math.abs(toggleAnim.knobPosition - i));
+    const alpha = 0.4 + nearness * 0.4;
+    ctx.fillStyle = nightMode
+      ? `rgba(200, 230, 255, ${alpha})`
+      : `rgba(50, 80, 40, ${alpha})`;
+    ctx.fillText(label, leftX + stopSpacing * i, y);
+  });
 
   // Squish deformation
   const squishX = 1 + toggleAnim.squish * 0.3;
@@ -2662,13 +3668,20 @@ function drawModeToggle(
   ctx.ellipse(knobX + 1.5, y + 2, knobRadius * squishX, knobRadius * squishY, 0, 0, Math.PI * 2);
   ctx.fill();
 
-  // Mochi knob gradient - interpolate colors based on position
-  const dailyColor = { h: 110, s: 45, l: 65 }; // Green
-  const freeColor = { h: 35, s: 30, l: 90 }; // Cream
-  const t = toggleAnim.knobPosition;
-  const h = dailyColor.h + (freeColor.h - dailyColor.h) * t;
-  const s = dailyColor.s + (freeColor.s - dailyColor.s) * t;
-  const l = dailyColor.l + (freeColor.l - dailyColor.l) * t;
+  // Mochi knob gradient - interpolate colors between the two nearest stops
+  const knobColors = [
+    { h: 110, s: 45, l: 65 }, // Green (daily)
+    { h: 35, s: 30, l: 90 }, // Cream (free play)
+    { h: 15, s: 70, l: 78 }, // Peach (rush)
+    { h: 265, s: 35, l: 82 }, // Lavender (zen)
+    { h: 200, s: 45, l: 80 }, // Sky blue (puzzle)
+  ];
+  const from = Math.min(knobColors.length - 2, Math.floor(toggleAnim.knobPosition));
+  const blend = toggleAnim.knobPosition - from;
+  const h = knobColors[from].h + (knobColors[from + 1].h - knobColors[from].h) * blend;
+  const s = knobColors[from].s + (knobColors[from + 1].s - knobColors[from].s) * blend;
+  const l = knobColors[from].l + (knobColors[from + 1].l - knobColors[from].l) * blend;
+  const t = Math.min(1, toggleAnim.knobPosition); // 0 on daily, the rosiest face
 
   const knobGradient = ctx.createRadialGradient(knobX - 3, y - 3, 0, knobX, y, knobRadius * 1.2);
   knobGradient.addColorStop(0, `hsl(${h}, ${s}%, ${Math.min(95, l + 15)}%)`);
@@ -2733,10 +3746,139 @@ function drawModeToggle(
 
 // Export for hit testing
 export const MODE_TOGGLE_BOUNDS = {
-  width: 70,
+  width: 124,
   height: 28,
 };
 
+// Replay viewer controls: a timeline across the top of the board with a row of
+// buttons underneath, both above the overflow line
+const REPLAY_BUTTONS: { control: ReplayControl; width: number }[] = [
+  { control: "prevMerge", width: 40 },
+  { control: "playPause", width: 48 },
+  { control: "step", width: 40 },
+  { control: "nextMerge", width: 40 },
+  { control: "speed", width: 48 },
+];
+const REPLAY_BUTTON_HEIGHT = 24;
+const REPLAY_BUTTON_GAP = 6;
+
+export interface ReplayControlsLayout {
+  timeline: { x: number; y: number; width: number; height: number; hitPadding: number };
+  buttons: { control: ReplayControl; x: number; y: number; width: number; height: number }[];
+}
+
+// Shared with mochi.ts for hit testing
+export function getReplayControlsLayout(container: Container): ReplayControlsLayout {
+  const inset = container.wallThickness + 16;
+  const timeline = {
+    x: container.x + inset,
+    y: container.y + 14,
+    width: container.width - inset * 2,
+    height: 6,
+    hitPadding: 10,
+  };
+
+  const rowWidth =
+    REPLAY_BUTTONS.reduce((sum, b) => sum + b.width, 0) + REPLAY_BUTTON_GAP * (REPLAY_BUTTONS.length - 1);
+  let buttonX = container.x + container.width / 2 - rowWidth / 2;
+  const buttons = REPLAY_BUTTONS.map(({ control, width }) => {
+    const button = { control, x: buttonX, y: container.y + 30, width, height: REPLAY_BUTTON_HEIGHT };
+    buttonX += width + REPLAY_BUTTON_GAP;
+    return button;
+  });
+
+  return { timeline, buttons };
+}
+
+function getReplayButtonLabel(control: ReplayControl, viewer: ReplayViewer): string {
+  switch (control) {
+    case "prevMerge":
+      return "|◀";
+    case "playPause":
+      return viewer.paused ? "▶" : "❚❚";
+    case "step":
+      return "+1";
+    case "nextMerge":
+      return "▶|";
+    case "speed":
+      return `${viewer.speed}x`;
+  }
+}
+
+function drawReplayControls(
+  ctx: CanvasRenderingContext2D,
+  container: Container,
+  viewer: ReplayViewer,
+  mouseX: number,
+  mouseY: number,
+  nightMode: boolean,
+): void {
+  const { timeline, buttons } = getReplayControlsLayout(container);
+  const progress = Math.min(1, viewer.tick / viewer.endTick);
+  const scanned = Math.min(1, viewer.scannedTick / viewer.endTick);
+
+  ctx.save();
+
+  // Timeline track, with the part playback has already seen a shade darker
+  ctx.fillStyle = nightMode ? "rgba(40, 55, 80, 0.6)" : "rgba(255, 255, 255, 0.6)";
+  ctx.beginPath();
+  ctx.roundRect(timeline.x, timeline.y, timeline.width, timeline.height, timeline.height / 2);
+  ctx.fill();
+
+  ctx.fillStyle = nightMode ? "rgba(90, 115, 150, 0.5)" : "rgba(175, 200, 160, 0.5)";
+  ctx.beginPath();
+  ctx.roundRect(timeline.x, timeline.y, timeline.width * scanned, timeline.height, timeline.height / 2);
+  ctx.fill();
+
+  ctx.fillStyle = nightMode ? "rgba(255, 220, 150, 0.85)" : "rgba(110, 150, 90, 0.9)";
+  ctx.beginPath();
+  ctx.roundRect(timeline.x, timeline.y, timeline.width * progress, timeline.height, timeline.height / 2);
+  ctx.fill();
+
+  // Merge markers
+  ctx.fillStyle = nightMode ? "rgba(255, 170, 200, 0.95)" : "rgba(230, 120, 150, 0.95)";
+  for (const tick of viewer.mergeTicks) {
+    const markerX = timeline.x + timeline.width * Math.min(1, tick / viewer.endTick);
+    ctx.beginPath();
+    ctx.arc(markerX, timeline.y + timeline.height / 2, 2.5, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  // Playhead
+  const headX = timeline.x + timeline.width * progress;
+  ctx.fillStyle = nightMode ? "rgba(255, 240, 210, 1)" : "rgba(255, 255, 255, 1)";
+  ctx.strokeStyle = nightMode ? "rgba(255, 220, 150, 0.9)" : "rgba(110, 150, 90, 0.9)";
+  ctx.lineWidth = 2;
+  ctx.beginPath();
+  ctx.arc(headX, timeline.y + timeline.height / 2, viewer.scrubbing ? 7 : 6, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.stroke();
+
+  // Buttons
+  ctx.font = 'bold 12px "Segoe UI", sans-serif';
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  for (const button of buttons) {
+    const hovered =
+      mouseX >= button.x && mouseX <= button.x + button.width &&
+      mouseY >= button.y && mouseY <= button.y + button.height;
+
+    if (nightMode) {
+      ctx.fillStyle = hovered ? "rgba(70, 95, 130, 0.9)" : "rgba(50, 70, 100, 0.75)";
+    } else {
+      ctx.fillStyle = hovered ? "rgba(175, 200, 160, 0.95)" : "rgba(255, 255, 255, 0.7)";
+    }
+    ctx.beginPath();
+    ctx.roundRect(button.x, button.y, button.width, button.height, button.height / 2);
+    ctx.fill();
+
+    ctx.fillStyle = nightMode ? "rgba(255, 235, 200, 0.95)" : "rgba(80, 110, 60, 0.95)";
+    ctx.fillText(getReplayButtonLabel(button.control, viewer), button.x + button.width / 2, button.y + button.height / 2 + 1);
+  }
+
+  ctx.restore();
+}
+
 function drawSpeakerIcon(
   ctx: CanvasRenderingContext2D,
   width: number,
@@ -2965,6 +4107,8 @@ export function render(
   gameState: GameState,
   leaderboard?: LeaderboardEntry[],
   playerName?: string,
+  pendingSync: number = 0,
+  scope?: LeaderboardScope,
 ): void {
   context.ctx.setTransform(context.dpr, 0, 0, context.dpr, 0, 0);
 
@@ -2985,7 +4129,7 @@ export function render(
   drawContainer(context, gameState.container, gameState.nightMode);
 
   // Draw drop preview (shows the mochi player is about to drop)
-  if (gameState.canDrop && !gameState.gameOver) {
+  if (gameState.canDrop && !gameState.gameOver && !gameState.isReplay) {
     drawDropPreview(
       context,
       gameState.dropX,
@@ -2994,8 +4138,14 @@ export function render(
     );
   }
 
+  // Mochi and their effects live in board space - offset them onto the container
+  const { x: boardX, y: boardY } = gameState.container;
+
   // Draw effects behind mochi
+  context.ctx.save();
+  context.ctx.translate(boardX, boardY);
   drawEffects(context.ctx);
+  context.ctx.restore();
 
   // Draw cherry blossoms (behind mochi)
   drawCherryBlossoms(context.ctx);
@@ -3003,6 +4153,9 @@ export function render(
   // Sort and draw mochi
   const sorted = [...mochis].sort((a, b) => a.cy - b.cy);
 
+  context.ctx.save();
+  context.ctx.translate(boardX, boardY);
+
   // If game over, find highest tier mochi for glow effect
   let highestTierMochi: Mochi | null = null;
   if (gameState.gameOver && mochis.length > 0) {
@@ -3015,17 +4168,78 @@ export function render(
     drawMochi(context, mochi);
   }
 
+  context.ctx.restore();
+
   // Draw walking cat (in front of mochi)
   drawWalkingCat(context.ctx);
 
-  // If game over, draw frosted overlay and results on container
-  if (gameState.gameOver) {
+  // Puzzle level select sits on the frosted container, like the results
+  if (gameState.levelSelect) {
+    drawFrostedOverlay(context.ctx, gameState.container, gameState.nightMode);
+    drawLevelSelect(
+      context.ctx,
+      gameState.container,
+      gameState.levelSelect,
+      gameState.mouseX,
+      gameState.mouseY,
+      gameState.nightMode,
+    );
+  }
+
+  // Online versus lobby, until the match starts
+  if (gameState.online && !gameState.gameOver && gameState.online.status !== "playing") {
+    drawFrostedOverlay(context.ctx, gameState.container, gameState.nightMode);
+    drawOnlineLobby(context.ctx, gameState.container, gameState.online, gameState.nightMode);
+  }
+
+  // If game over, draw frosted overlay and results on container (or the name
+  // editor or daily archive, opened from the results)
+  if (gameState.nameEditor) {
+    drawFrostedOverlay(context.ctx, gameState.container, gameState.nightMode);
+    drawNameEditor(
+      context.ctx,
+      gameState.container,
+      gameState.nameEditor,
+      leaderboard,
+      gameState.mouseX,
+      gameState.mouseY,
+      gameState.nightMode,
+    );
+  } else if (gameState.archiveMonth) {
+    drawFrostedOverlay(context.ctx, gameState.container, gameState.nightMode);
+    drawArchiveCalendar(
+      context.ctx,
+      gameState.container,
+      gameState.archiveMonth,
+      gameState.dailyChallenge?.date,
+      gameState.dailyHistory,
+      gameState.mouseX,
+      gameState.mouseY,
+      gameState.nightMode,
+    );
+  } else if (gameState.gameOver) {
     drawFrostedOverlay(context.ctx, gameState.container, gameState.nightMode);
-    drawGameOverResults(context.ctx, gameState.container, gameState, leaderboard, playerName);
+    if (gameState.dailyStats) {
+      drawDailyStats(context.ctx, gameState.container, gameState.dailyStats, gameState.nightMode);
+    } else {
+      drawGameOverResults(context.ctx, gameState.container, gameState, leaderboard);
+    }
+  }
+
+  // Replay playback controls stay usable over the results, to scrub back
+  if (gameState.replayViewer) {
+    drawReplayControls(
+      context.ctx,
+      gameState.container,
+      gameState.replayViewer,
+      gameState.mouseX,
+      gameState.mouseY,
+      gameState.nightMode,
+    );
   }
 
   // Draw UI on top
-  drawUI(context, gameState, leaderboard, playerName, mochis);
+  drawUI(context, gameState, leaderboard, playerName, mochis, pendingSync, scope);
 
   // Draw moon/sun toggle
   drawMoon(context.ctx, context.width, context.height, gameState.nightMode);
@@ -3043,3 +4257,156 @@ export function render(
   drawWarmOverlay(context.ctx, context.width, context.height, gameState.nightMode);
   drawVignette(context.ctx, context.width, context.height);
 }
+
+// Local versus: the "Leave" pill centred above the two boards (view space)
+export function getVersusLeaveButton(viewWidth: number): { x: number; y: number; width: number; height: number } {
+  return { x: viewWidth / 2 - 42, y: 14, width: 84, height: 30 };
+}
+
+const VERSUS_CONTROLS = ["A / D to aim · S to drop", "← / → to aim · ↓ to drop · gamepad"];
+
+// Player name, score, next tier and queued garbage above one versus board
+function drawVersusHeader(
+  ctx: CanvasRenderingContext2D,
+  player: VersusPlayer,
+  index: number,
+  nightMode: boolean,
+): void {
+  const { container, sim } = player;
+  const textColor = nightMode ? "#E8E4E0" : "#3D5A3A";
+  const mutedColor = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
+
+  ctx.save();
+  ctx.textAlign = "left";
+  ctx.font = 'bold 18px "Segoe UI", sans-serif';
+  ctx.fillStyle = textColor;
+  ctx.fillText(`Player ${index + 1}`, container.x, container.y - 34);
+  ctx.font = '14px "Segoe UI", sans-serif';
+  ctx.fillStyle = mutedColor;
+  ctx.fillText(`Score: ${sim.score}`, container.x, container.y - 14);
+
+  // Next tier, small, at the right edge
+  const tierData = mochiTiers[sim.nextTier];
+  const previewX = container.x + container.width - 14;
+  const previewY = container.y - 28;
+  ctx.textAlign = "right";
+  ctx.font = '12px "Segoe UI", sans-serif';
+  ctx.fillText("next", previewX - 20, previewY + 4);
+  ctx.fillStyle = tierData.color.primary;
+  ctx.beginPath();
+  ctx.arc(previewX, previewY, 12, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Garbage on its way - one dot per Vanilla
+  if (player.incomingGarbage > 0) {
+    const garbageColor = mochiTiers[0].color.secondary;
+    const shown = Math.min(player.incomingGarbage, 8);
+    const centerX = container.x + container.width / 2;
+    for (let i = 0; i < shown; i++) {
+      ctx.fillStyle = garbageColor;
+      ctx.beginPath();
+      ctx.arc(centerX + (i - (shown - 1) / 2) * 12, container.y - 24, 4.5, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    if (player.incomingGarbage > shown) {
+      ctx.textAlign = "left";
+      ctx.fillStyle = "#D9534F";
+      ctx.fillText(`+${player.incomingGarbage - shown}`, centerX + shown * 6 + 4, container.y - 20);
+    }
+  }
+
+  // Controls hint under the board
+  ctx.textAlign = "center";
+  ctx.font = '12px "Segoe UI", sans-serif';
+  ctx.fillStyle = mutedColor;
+  ctx.fillText(VERSUS_CONTROLS[index], container.x + container.width / 2, container.y + container.height + 24);
+  ctx.restore();
+}
+
+// Winner / loser banner on a finished versus board
+function drawVersusResult(
+  ctx: CanvasRenderingContext2D,
+  container: Container,
+  text: string,
+  won: boolean,
+  nightMode: boolean,
+): void {
+  drawFrostedOverlay(ctx, container, nightMode);
+
+  const centerX = container.x + container.width / 2;
+  const centerY = container.y + container.height / 2;
+  ctx.save();
+  ctx.textAlign = "center";
+  ctx.font = 'bold 32px "Segoe UI", sans-serif';
+  ctx.fillStyle = won ? (nightMode ? "rgba(255, 220, 150, 0.95)" : "#4A6741") : (nightMode ? "#C8D8E8" : "#6B8A5E");
+  ctx.fillText(text, centerX, centerY - 10);
+  ctx.font = '14px "Segoe UI", sans-serif';
+  ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 0.7)" : "rgba(100, 130, 90, 0.7)";
+  ctx.fillText("Tap or press Space for a rematch", centerX, centerY + 20);
+  ctx.restore();
+}
+
+// Local versus: both boards side by side, scaled down together on narrow screens
+export function renderVersus(
+  context: CanvasContext,
+  match: VersusMatch,
+  scale: number,
+  nightMode: boolean,
+  mouseX: number,
+  mouseY: number,
+): void {
+  const { ctx } = context;
+  ctx.setTransform(context.dpr, 0, 0, context.dpr, 0, 0);
+  clearCanvas(context, nightMode);
+  ctx.scale(scale, scale);
+
+  const viewWidth = context.width / scale;
+
+  match.players.forEach((player, index) => {
+    const { container, sim } = player;
+    drawContainer(context, container, nightMode);
+
+    if (sim.canDrop && match.result === null) {
+      drawDropPreview(context, container.x + player.dropX, sim.currentTier, container);
+    }
+
+    ctx.save();
+    ctx.translate(container.x, container.y);
+    for (const mochi of [...sim.mochis].sort((a, b) => a.cy - b.cy)) {
+      drawMochi(context, mochi);
+    }
+    ctx.restore();
+
+    drawVersusHeader(ctx, player, index, nightMode);
+  });
+
+  // Effects for both boards are added in view space, so they draw untranslated
+  drawEffects(ctx);
+
+  if (match.result !== null) {
+    match.players.forEach((player, index) => {
+      const won = match.result === index;
+      const text = match.result === "draw" ? "Draw" : won ? "Winner!" : "Overflow";
+      drawVersusResult(ctx, player.container, text, won, nightMode);
+    });
+  }
+
+  // Leave button
+  const leave = getVersusLeaveButton(viewWidth);
+  const isHovered = mouseX / scale >= leave.x && mouseX / scale <= leave.x + leave.width &&
+    mouseY / scale >= leave.y && mouseY / scale <= leave.y + leave.height;
+  const primaryColor = nightMode ? { r: 100, g: 140, b: 180 } : { r: 122, g: 155, b: 109 };
+  ctx.fillStyle = `rgba(${primaryColor.r}, ${primaryColor.g}, ${primaryColor.b}, ${isHovered ? 0.45 : 0.25})`;
+  ctx.beginPath();
+  ctx.roundRect(leave.x, leave.y, leave.width, leave.height, 10);
+  ctx.fill();
+  ctx.fillStyle = nightMode ? "rgba(200, 210, 220, 1)" : "rgba(60, 85, 52, 1)";
+  ctx.font = '13px "Segoe UI", sans-serif';
+  ctx.textAlign = "center";
+  ctx.fillText("Leave", leave.x + leave.width / 2, leave.y + 20);
+  ctx.textAlign = "left";
+
+  ctx.setTransform(context.dpr, 0, 0, context.dpr, 0, 0);
+  drawWarmOverlay(ctx, context.width, context.height, nightMode);
+  drawVignette(ctx, context.width, context.height);
+}
@@ -0,0 +1,175 @@
+import type { GameMode, LevelGoal, PhysicsConfig, PuzzleLevel, Replay } from './types';
+import { mochiTiers } from './physics';
+import { BOARD } from './simulation';
+
+// Bump whenever a simulation change would make older replays play back differently
+export const REPLAY_VERSION = 3;
+
+// URL parameter carrying a base64url-encoded replay
+const REPLAY_PARAM = 'replay';
+
+// Start an empty recording for a new game (a puzzle carries its whole level,
+// so the recording plays back without the level files)
+export function createReplay(seed: number, mode: GameMode, config: PhysicsConfig, dailyDate?: string, level?: PuzzleLevel, archive?: boolean): Replay {
+  return {
+    version: REPLAY_VERSION,
+    seed,
+    mode,
+    ...(dailyDate ? { dailyDate } : {}),
+    ...(archive ? { archive } : {}),
+    ...(level ? { level } : {}),
+    config: { ...config },
+    drops: [],
+    endTick: 0,
+    score: 0,
+  };
+}
+
+// Record a drop that enters the simulation before `tick` runs
+export function recordDrop(replay: Replay, tick: number, x: number): void {
+  replay.drops.push([tick, x]);
+}
+
+// Whether a drop can come next in a recording: a whole tick, no earlier than
+// the last drop's, at a finite position. For drops from elsewhere (the versus
+// relay) before they're recorded.
+export function isValidNextDrop(replay: Replay, tick: unknown, x: unknown): boolean {
+  const lastDrop = replay.drops[replay.drops.length - 1];
+  return Number.isInteger(tick) && (tick as number) >= (lastDrop?.[0] ?? 0) && Number.isFinite(x);
+}
+
+// Mark the recording as finished
+export function finishReplay(replay: Replay, tick: number, score: number): void {
+  replay.endTick = tick;
+  replay.score = score;
+}
+
+// Extra ticks to keep playing after the last drop of an unfinished recording
+const UNFINISHED_TAIL_TICKS = 600;
+
+// Ticks a replay plays for (game over happens during its end tick)
+// A recording saved mid-game has no end tick yet
+export function getReplayLength(replay: Replay): number {
+  if (replay.endTick > 0) return replay.endTick + 1;
+  const lastDrop = replay.drops[replay.drops.length - 1];
+  return (lastDrop ? lastDrop[0] : 0) + UNFINISHED_TAIL_TICKS;
+}
+
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+// The same rules src/content.config.ts holds the bundled levels to
+const isPositiveInteger = (n: unknown): n is number => Number.isInteger(n) && (n as number) > 0;
+
+const isTier = (tier: unknown): tier is number =>
+  Number.isInteger(tier) && (tier as number) >= 0 && (tier as number) < mochiTiers.length;
+
+// A starting mochi's centre has to be between the walls and above the floor
+function isOnBoard(x: unknown, y: unknown): boolean {
+  return Number.isFinite(x) && Number.isFinite(y) &&
+    (x as number) >= BOARD.x + BOARD.wallThickness && (x as number) <= BOARD.x + BOARD.width - BOARD.wallThickness &&
+    (y as number) >= BOARD.y && (y as number) <= BOARD.y + BOARD.height - BOARD.wallThickness;
+}
+
+function isLevelGoal(goal: unknown): goal is LevelGoal {
+  if (!goal || typeof goal !== 'object') return false;
+  const { type, tier, score } = goal as { type?: unknown; tier?: unknown; score?: unknown };
+  if (type === 'reachTier' || type === 'clearTier') return isTier(tier);
+  return type === 'score' && isPositiveInteger(score);
+}
+
+// Enough of a level to set up and play (see PuzzleLevel), with every tier one
+// the game has and every mochi on the board
+function isPuzzleLevel(level: unknown): level is PuzzleLevel {
+  if (!level || typeof level !== 'object') return false;
+  const { id, name, mochis, drops, goal, stars } = level as Partial<PuzzleLevel>;
+  return typeof id === 'string' && typeof name === 'string' &&
+    Array.isArray(mochis) && mochis.every(m => !!m && typeof m === 'object' && isTier(m.tier) && isOnBoard(m.x, m.y)) &&
+    Array.isArray(drops) && drops.length > 0 && drops.every(isTier) &&
+    isLevelGoal(goal) &&
+    Array.isArray(stars) && stars.length === 2 && stars.every(isPositiveInteger);
+}
+
+// Parse and validate replay JSON - returns null for anything we can't play back
+export function parseReplay(json: string): Replay | null {
+  try {
+    const data = JSON.parse(json) as Partial<Replay>;
+    if (data.version !== REPLAY_VERSION) return null;
+    if (typeof data.seed !== 'number' || typeof data.endTick !== 'number' || typeof data.score !== 'number') return null;
+    if (!['daily', 'practice', 'rush', 'zen', 'puzzle', 'online'].includes(data.mode as string)) return null;
+    // Only puzzles start from a preset board - in any other mode it would be a forged one
+    if (data.mode === 'puzzle' ? !isPuzzleLevel(data.level) : 'level' in data) return null;
+    if (!data.config || typeof data.config !== 'object') return null;
+    if (!Array.isArray(data.drops)) return null;
+
+    let lastTick = -1;
+    for (const drop of data.drops) {
+      if (!Array.isArray(drop) || drop.length !== 2) return null;
+      const [tick, x] = drop;
+      if (!Number.isInteger(tick) || tick < lastTick || !Number.isFinite(x)) return null;
+      lastTick = tick;
+    }
+
+    return data as Replay;
+  } catch {
+    return null;
+  }
+}
+
+// base64url so replays fit in a query string
+export function encodeReplayParam(replay: Replay): string {
+  const bytes = new TextEncoder().encode(serializeReplay(replay));
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeReplayParam(param: string): Replay | null {
+  try {
+    const base64 = param.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64);
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+    return parseReplay(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+}
+
+// Load a replay passed as ?replay=... (browser-only)
+export function loadReplayFromUrl(): Replay | null {
+  if (typeof window === 'undefined') return null;
+  const param = new URLSearchParams(window.location.search).get(REPLAY_PARAM);
+  return param ? decodeReplayParam(param) : null;
+}
+
+// Read a replay from a dropped .json file
+export async function loadReplayFromFile(file: File): Promise<Replay | null> {
+  try {
+    return parseReplay(await file.text());
+  } catch {
+    return null;
+  }
+}
+
+// Save the replay as a .json download
+export function downloadReplay(replay: Replay): void {
+  try {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const label = replay.mode === 'daily' && replay.dailyDate
+      ? `daily-${replay.dailyDate}`
+      : replay.mode === 'puzzle' && replay.level
+        ? `puzzle-${replay.level.id}`
+        : `${replay.mode === 'practice' ? 'freeplay' : replay.mode}-${replay.seed}`;
+    link.href = url;
+    link.download = `mochii-replay-${label}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  } catch (e) {
+    console.warn('Failed to download replay:', e);
+  }
+}
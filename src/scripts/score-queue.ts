@@ -0,0 +1,75 @@
+import type { Replay, ScoreSubmission } from './types';
+
+// Runs whose submission didn't get through (offline, server down), kept in
+// `storage` (localStorage by default) until a retry lands. leaderboard.ts
+// decides when to retry.
+
+export interface QueuedSubmission extends ScoreSubmission {
+  runId: string;
+  attempts: number; // Failed tries so far
+  nextAttemptAt: number; // Epoch ms
+}
+
+const SCORE_QUEUE_KEY = 'mochiScoreQueue';
+const MAX_QUEUED = 20; // Oldest runs give way past this
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+
+const defaultStorage = (): Storage | null => (typeof localStorage !== 'undefined' ? localStorage : null);
+
+// Identifies a run, so the same game is never queued (or ranked) twice. A
+// replay is its inputs, so these pin it down.
+export function getRunId(replay: Replay): string {
+  const lastDrop = replay.drops[replay.drops.length - 1];
+  return [replay.mode, replay.seed, replay.dailyDate ?? '', replay.endTick, replay.drops.length, lastDrop?.[1] ?? '', replay.score].join(':');
+}
+
+// Wait before the next try after `attempts` failed ones: 5s, 10s, 20s... up to
+// ten minutes
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+}
+
+export function loadScoreQueue(storage: Storage | null = defaultStorage()): QueuedSubmission[] {
+  try {
+    const stored = storage?.getItem(SCORE_QUEUE_KEY);
+    return stored ? JSON.parse(stored) as QueuedSubmission[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveScoreQueue(queue: QueuedSubmission[], storage: Storage | null): void {
+  try {
+    if (queue.length > 0) {
+      storage?.setItem(SCORE_QUEUE_KEY, JSON.stringify(queue));
+    } else {
+      storage?.removeItem(SCORE_QUEUE_KEY);
+    }
+  } catch {
+    // Silently fail if localStorage is not available
+  }
+}
+
+// Queue a run (or, if it's already queued, count another failed try)
+export function enqueueSubmission(submission: ScoreSubmission, now: number = Date.now(), storage: Storage | null = defaultStorage()): QueuedSubmission[] {
+  const runId = getRunId(submission.replay);
+  const queue = loadScoreQueue(storage);
+  const existing = queue.find(entry => entry.runId === runId);
+  if (existing) {
+    existing.attempts++;
+    existing.nextAttemptAt = now + getRetryDelay(existing.attempts);
+  } else {
+    queue.push({ ...submission, runId, attempts: 1, nextAttemptAt: now + getRetryDelay(1) });
+  }
+  const trimmed = queue.slice(-MAX_QUEUED);
+  saveScoreQueue(trimmed, storage);
+  return trimmed;
+}
+
+// Take a run off the queue once it's been answered (accepted or rejected)
+export function dequeueSubmission(runId: string, storage: Storage | null = defaultStorage()): QueuedSubmission[] {
+  const queue = loadScoreQueue(storage).filter(entry => entry.runId !== runId);
+  saveScoreQueue(queue, storage);
+  return queue;
+}
@@ -0,0 +1,460 @@
+import type { Mochi, Container, PhysicsConfig, Replay, GameMode, PuzzleLevel, LevelResult } from './types';
+import { createMochi, runPhysicsTicks, mochiTiers, DROPPABLE_TIERS } from './physics';
+import { createSeededRandom, type SeededRandom } from './daily';
+import { TICK_DT, MERGE_DELAY_TICKS, DISSOLVE_DELAY_TICKS, type PhysicsEvent, type OverflowRule } from './physics-types';
+import { getReplayLength } from './replay';
+import { getLevelStars } from './levels';
+
+// Headless game rules: drops, merges, scoring and game over on the fixed tick clock.
+// No DOM, storage or worker access, so the same code runs in the game and in Node
+// (the score server re-simulates submitted replays with it).
+
+// Fixed container size to prevent cheating
+const CONTAINER_WIDTH = 320;
+const CONTAINER_HEIGHT = 450;
+
+// The board the simulation runs in: container-local coordinates, independent of
+// screen layout, so a replay simulates identically on any screen size.
+// Rendering offsets everything by the layout container.
+export const BOARD: Container = {
+  x: 0,
+  y: 0,
+  width: CONTAINER_WIDTH,
+  height: CONTAINER_HEIGHT,
+  wallThickness: 15,
+  overflowLine: 60,
+};
+
+export const DROP_COOLDOWN = 45; // Frames to wait between drops (~0.75 seconds)
+
+// Mochi Rush: two minutes on the clock, quicker drops, and a mochi dissolving
+// off the top costs ten seconds instead of ending the run
+const RUSH_DROP_COOLDOWN = 30; // ~0.5 seconds, still no shorter than the combo window
+const RUSH_TIME_LIMIT_TICKS = 120 * 120; // 120 ticks per second
+const RUSH_OVERFLOW_PENALTY_TICKS = 10 * 120;
+
+// Puzzle: once the supply is used up, a level is lost after this long without
+// a merge (~4 seconds)
+const LEVEL_SETTLE_TICKS = 480;
+
+// Ticks a merged mochi has to merge again for it to count as a chain reaction (~0.5s)
+const MERGE_CHAIN_WINDOW_TICKS = 60;
+
+// Ticks after a merge in which the next merge continues the combo (~0.5 seconds,
+// shorter than the drop cooldown so steady dropping alone does not build one)
+const COMBO_WINDOW_TICKS = 60;
+const MAX_COMBO_MULTIPLIER = 5;
+
+// Salt so the physics stream differs from the tier stream for the same seed
+const PHYSICS_SEED_SALT = 0x5bd1e995;
+
+// How a mode's runs play out
+export interface GameRules {
+  overflow: OverflowRule;
+  dropCooldown: number; // Frames between drops
+  timeLimitTicks: number | null; // Length of the clock, for timed modes
+  overflowPenaltyTicks: number; // Clock time each dissolved mochi costs
+}
+
+export function getRulesForMode(mode: GameMode): GameRules {
+  if (mode === 'rush') {
+    return {
+      overflow: 'dissolve',
+      dropCooldown: RUSH_DROP_COOLDOWN,
+      timeLimitTicks: RUSH_TIME_LIMIT_TICKS,
+      overflowPenaltyTicks: RUSH_OVERFLOW_PENALTY_TICKS,
+    };
+  }
+  return {
+    overflow: mode === 'zen' ? 'dissolve' : 'gameOver',
+    dropCooldown: DROP_COOLDOWN,
+    timeLimitTicks: null,
+    overflowPenaltyTicks: 0,
+  };
+}
+
+// Merges waiting for their merged mochi to appear
+export interface PendingMerge {
+  m1: Mochi;
+  m2: Mochi;
+  x: number;
+  y: number;
+  tier: number;
+  chain: number; // Position in a cascade of merges (1 = started by a drop)
+  combo: number; // Combo count this merge reached
+  dueTick: number;
+}
+
+export interface Simulation {
+  mochis: Mochi[];
+  config: PhysicsConfig;
+  rules: GameRules;
+  tick: number; // Ticks simulated (or handed to the worker) so far
+  clockEndTick: number | null; // Timed modes: the tick the clock runs out at
+  endedAtTick: number | null; // Tick a clock or level ending happened on
+  level: PuzzleLevel | null; // Puzzle mode: the level being played
+  levelResult: LevelResult | null;
+  levelStars: number;
+  quietSinceTick: number; // Last drop or merge
+  drops: number; // Drops made so far
+  score: number;
+  mergeCount: number;
+  highestTier: number;
+  combo: number; // Merges in the current combo
+  comboUntilTick: number; // Last tick a merge still continues it
+  bestCombo: number;
+  currentTier: number; // What the player is about to drop
+  nextTier: number; // What's shown in the "next" preview
+  canDrop: boolean;
+  dropCooldown: number;
+  gameOver: boolean;
+  pendingMerges: PendingMerge[];
+  // One stream drives the tier sequence, the other every random choice the
+  // simulation makes (new mochi idle phases)
+  tierRandom: SeededRandom;
+  physicsRandom: SeededRandom;
+}
+
+// A puzzle game starts from its level's board and drops the level's tiers
+export function createSimulation(seed: number, config: PhysicsConfig, mode: GameMode, level?: PuzzleLevel): Simulation {
+  const rules = getRulesForMode(mode);
+  const tierRandom = createSeededRandom(seed);
+  const currentTier = getNextTier(tierRandom);
+  const nextTier = getNextTier(tierRandom);
+
+  const sim: Simulation = {
+    mochis: [],
+    config,
+    rules,
+    tick: 0,
+    clockEndTick: rules.timeLimitTicks,
+    endedAtTick: null,
+    level: level ?? null,
+    levelResult: null,
+    levelStars: 0,
+    quietSinceTick: 0,
+    drops: 0,
+    score: 0,
+    mergeCount: 0,
+    highestTier: 0,
+    combo: 0,
+    comboUntilTick: -1,
+    bestCombo: 0,
+    currentTier,
+    nextTier,
+    canDrop: true,
+    dropCooldown: 0,
+    gameOver: false,
+    pendingMerges: [],
+    tierRandom,
+    physicsRandom: createSeededRandom(seed ^ PHYSICS_SEED_SALT),
+  };
+
+  if (level) {
+    for (const { tier, x, y } of level.mochis) {
+      const mochi = createMochi(x, y, tier, sim.physicsRandom);
+      mochi.hasLanded = true;
+      sim.mochis.push(mochi);
+    }
+    sim.currentTier = level.drops[0];
+    sim.nextTier = level.drops[1] ?? level.drops[0];
+  }
+  return sim;
+}
+
+// Drops left in a puzzle level's supply (null outside puzzles)
+export function getDropsLeft(sim: Simulation): number | null {
+  return sim.level ? sim.level.drops.length - sim.drops : null;
+}
+
+// End the run for a reason the physics doesn't report
+function endRun(sim: Simulation, tick: number, result?: LevelResult): void {
+  sim.gameOver = true;
+  sim.endedAtTick = tick;
+  if (result && sim.level) {
+    sim.levelResult = result;
+    sim.levelStars = result === 'won' ? getLevelStars(sim.level, sim.drops) : 0;
+  }
+}
+
+// Get the next droppable tier from the game's seeded sequence
+function getNextTier(random: SeededRandom): number {
+  return DROPPABLE_TIERS[Math.floor(random() * DROPPABLE_TIERS.length)];
+}
+
+// Add a falling mochi at a board-space X, above the overflow line
+function spawnDroppingMochi(sim: Simulation, x: number, tier: number): Mochi {
+  const tierData = mochiTiers[tier];
+
+  // Clamp X within container
+  const minX = BOARD.x + BOARD.wallThickness + tierData.radius;
+  const maxX = BOARD.x + BOARD.width - BOARD.wallThickness - tierData.radius;
+  const clampedX = Math.max(minX, Math.min(maxX, x));
+
+  // Create and drop the mochi
+  const mochi = createMochi(clampedX, BOARD.overflowLine - 50, tier, sim.physicsRandom);
+  mochi.isDropping = true;
+  mochi.emotion = 'surprised';
+  mochi.emotionTimer = 12; // Brief surprised look when dropped
+
+  // Give initial downward velocity to maintain falling speed with lower gravity
+  for (const p of mochi.points) {
+    p.vy = 2;
+  }
+
+  sim.mochis.push(mochi);
+  return mochi;
+}
+
+// Drop a mochi from outside the player's tier sequence (versus garbage). It
+// doesn't count as a drop or touch the cooldown.
+export function dropGarbageMochi(sim: Simulation, x: number, tier: number): Mochi | null {
+  if (sim.gameOver) return null;
+  return spawnDroppingMochi(sim, x, tier);
+}
+
+// Drop the current tier at a board-space X (enters the simulation at the next tick)
+// Returns null when a drop isn't allowed right now
+export function dropMochi(sim: Simulation, x: number): Mochi | null {
+  if (!sim.canDrop || sim.gameOver || sim.dropCooldown > 0 || getDropsLeft(sim) === 0) return null;
+
+  const mochi = spawnDroppingMochi(sim, x, sim.currentTier);
+  sim.drops++;
+  sim.quietSinceTick = sim.tick;
+
+  // Cycle tiers: current becomes next, next becomes new random (or the level's
+  // next tier, staying put once its supply runs out)
+  sim.currentTier = sim.nextTier;
+  sim.nextTier = sim.level ? sim.level.drops[sim.drops + 1] ?? sim.nextTier : getNextTier(sim.tierRandom);
+  sim.canDrop = false;
+  sim.dropCooldown = sim.rules.dropCooldown;
+  return mochi;
+}
+
+// Score multiplier for a combo count
+export function getComboMultiplier(combo: number): number {
+  return Math.max(1, Math.min(combo, MAX_COMBO_MULTIPLIER));
+}
+
+// Score a merge and queue its bigger mochi (the pair is already marked merging)
+export function recordMerge(sim: Simulation, m1: Mochi, m2: Mochi, x: number, y: number, tier: number, tick: number, chain: number): void {
+  // Merges close together, or set off by a freshly merged mochi, build a combo
+  sim.combo = tick <= sim.comboUntilTick || chain > 1 ? sim.combo + 1 : 1;
+  sim.comboUntilTick = tick + COMBO_WINDOW_TICKS;
+  if (sim.combo > sim.bestCombo) {
+    sim.bestCombo = sim.combo;
+  }
+
+  sim.score += mochiTiers[tier].points * getComboMultiplier(sim.combo);
+  sim.mergeCount++;
+  sim.quietSinceTick = tick;
+  if (tier > sim.highestTier) {
+    sim.highestTier = tier;
+  }
+
+  // Delayed creation of new mochi
+  sim.pendingMerges.push({ m1, m2, x, y, tier, chain, combo: sim.combo, dueTick: tick + MERGE_DELAY_TICKS });
+}
+
+// Replace merged pairs whose delay has elapsed with their bigger mochi
+// Runs at tick boundaries so main thread and worker physics see identical boards
+export function completeDueMerges(sim: Simulation): void {
+  while (sim.pendingMerges.length > 0 && sim.pendingMerges[0].dueTick <= sim.tick) {
+    const { m1, m2, x, y, tier, chain } = sim.pendingMerges.shift()!;
+
+    // Remove old mochis
+    sim.mochis = sim.mochis.filter(m => m !== m1 && m !== m2);
+
+    // Create new bigger mochi
+    const newMochi = createMochi(x, y, tier, sim.physicsRandom);
+    newMochi.hasLanded = true;
+    // Merging again soon after appearing continues the cascade
+    newMochi.mergeChain = chain;
+    newMochi.mergeChainUntil = sim.tick + MERGE_CHAIN_WINDOW_TICKS;
+    newMochi.emotion = 'love';
+    newMochi.emotionTimer = 40;
+    newMochi.wobbleIntensity = 2;
+
+    // Give it a little upward pop
+    for (const p of newMochi.points) {
+      p.vy = -3;
+    }
+
+    sim.mochis.push(newMochi);
+  }
+}
+
+// Count down the drop cooldown by simulated time so it lines up with ticks
+export function advanceDropCooldown(sim: Simulation, ticks: number): void {
+  if (sim.dropCooldown > 0) {
+    sim.dropCooldown -= ticks * TICK_DT;
+    if (sim.dropCooldown <= 0) {
+      sim.canDrop = true;
+    }
+  }
+}
+
+// Clock ticks left in a timed mode (null when the mode has no clock)
+export function getTicksLeft(sim: Simulation): number | null {
+  return sim.clockEndTick === null ? null : Math.max(0, sim.clockEndTick - sim.tick);
+}
+
+// Apply the rules side of what the physics reported: merges are scored and
+// queued, dissolved mochi leave the board (costing clock time in timed modes),
+// game over ends the run. Used for both main-thread and worker ticks, once
+// sim.tick has moved past them - a timed run also ends here when that leaves
+// its clock at zero, and a puzzle when its goal is met or can no longer be.
+export function applyPhysicsEvents(sim: Simulation, events: PhysicsEvent[]): void {
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    if (event.event === 'merge') {
+      const m1 = sim.mochis.find(m => m.id === event.m1Id);
+      const m2 = sim.mochis.find(m => m.id === event.m2Id);
+      if (m1 && m2) {
+        recordMerge(sim, m1, m2, event.x, event.y, event.tier, event.tick, event.chain);
+      }
+      // A level is won on the merge that meets its goal - anything later in
+      // the batch happened after the run ended
+      if (sim.level && isLevelGoalMet(sim, events.slice(i + 1))) {
+        endRun(sim, event.tick, 'won');
+        return;
+      }
+    } else if (event.event === 'dissolve') {
+      sim.mochis = sim.mochis.filter(m => m.id !== event.mochiId);
+      if (sim.clockEndTick !== null) {
+        sim.clockEndTick -= sim.rules.overflowPenaltyTicks;
+      }
+    } else if (event.event === 'gameOver') {
+      sim.gameOver = true;
+      if (sim.level) sim.levelResult = 'lost';
+    }
+  }
+
+  if (getTicksLeft(sim) === 0) {
+    endRun(sim, sim.tick - 1);
+  }
+  const levelDeadline = getLevelDeadline(sim);
+  if (!sim.gameOver && levelDeadline !== null && sim.tick >= levelDeadline) {
+    endRun(sim, levelDeadline - 1, 'lost');
+  }
+}
+
+// Whether the level's goal holds after a merge. `laterEvents` are the rest of
+// the batch: the board's merging flags are already as of its end, so a tier is
+// only cleared at the last merge that used it up.
+function isLevelGoalMet(sim: Simulation, laterEvents: PhysicsEvent[]): boolean {
+  const goal = sim.level!.goal;
+  switch (goal.type) {
+    case 'reachTier':
+      return sim.highestTier >= goal.tier;
+    case 'score':
+      return sim.score >= goal.score;
+    case 'clearTier':
+      return !laterEvents.some(e => e.event === 'merge' && e.tier === goal.tier + 1) &&
+        sim.mochis.every(m => m.tier !== goal.tier || m.merging);
+  }
+}
+
+// Puzzle: the tick a level is lost on once its supply is used up and the board
+// has gone quiet (null while drops are left)
+function getLevelDeadline(sim: Simulation): number | null {
+  return getDropsLeft(sim) === 0 ? sim.quietSinceTick + LEVEL_SETTLE_TICKS : null;
+}
+
+// Ticks that can run in one batch before the board changes from outside the
+// physics (a merged mochi appearing) or the clock can change. A timed batch
+// ends at the clock's end and on the earliest tick a mochi could dissolve, so a
+// penalty always lands at a batch boundary; a puzzle batch ends where the
+// level would be lost.
+export function getBatchLimit(sim: Simulation): number {
+  let limit = MERGE_DELAY_TICKS;
+  if (sim.pendingMerges.length > 0) {
+    limit = Math.min(limit, sim.pendingMerges[0].dueTick - sim.tick);
+  }
+  const ticksLeft = getTicksLeft(sim);
+  if (ticksLeft !== null) {
+    limit = Math.min(limit, ticksLeft);
+    if (sim.rules.overflowPenaltyTicks > 0) {
+      const mostOverflowed = Math.max(0, ...sim.mochis.map(m => m.overflowTicks));
+      limit = Math.min(limit, DISSOLVE_DELAY_TICKS - mostOverflowed);
+    }
+  }
+  const levelDeadline = getLevelDeadline(sim);
+  if (levelDeadline !== null) {
+    limit = Math.min(limit, levelDeadline - sim.tick);
+  }
+  return limit;
+}
+
+// Run exactly one fixed tick and return what happened during it
+export function stepSimulation(sim: Simulation): PhysicsEvent[] {
+  completeDueMerges(sim);
+
+  const events = runPhysicsTicks(sim.mochis, sim.config, BOARD, sim.tick, 1, sim.rules.overflow);
+  sim.tick++;
+  applyPhysicsEvents(sim, events);
+
+  advanceDropCooldown(sim, 1);
+  return events;
+}
+
+// Springs never change after creation, so only the points need copying
+function cloneMochi(mochi: Mochi): Mochi {
+  return { ...mochi, points: mochi.points.map(p => ({ ...p })) };
+}
+
+// Independent copy of a simulation that carries on exactly like the original
+export function cloneSimulation(sim: Simulation): Simulation {
+  const mochis = sim.mochis.map(cloneMochi);
+  const copyOf = (mochi: Mochi) => mochis[sim.mochis.indexOf(mochi)];
+
+  return {
+    ...sim,
+    mochis,
+    pendingMerges: sim.pendingMerges.map(merge => ({ ...merge, m1: copyOf(merge.m1), m2: copyOf(merge.m2) })),
+    tierRandom: createSeededRandom(sim.tierRandom.getState()),
+    physicsRandom: createSeededRandom(sim.physicsRandom.getState()),
+  };
+}
+
+// Re-simulate a recorded game from its seed and drops, up to game over or the
+// end of the recording (whichever comes first)
+export function simulateReplay(replay: Replay): Simulation {
+  const run = startReplayRun(replay);
+  continueReplayRun(run, Infinity);
+  return run.sim;
+}
+
+// A recorded game being re-simulated a piece at a time, so a long one can be
+// spread over several frames
+export interface ReplayRun {
+  replay: Replay;
+  sim: Simulation;
+  endTick: number;
+  dropIndex: number; // Next drop to feed in
+}
+
+export function startReplayRun(replay: Replay): ReplayRun {
+  return {
+    replay,
+    sim: createSimulation(replay.seed, replay.config, replay.mode, replay.level),
+    endTick: getReplayLength(replay),
+    dropIndex: 0,
+  };
+}
+
+// Simulate up to `maxTicks` more ticks. True once the replay has played out.
+export function continueReplayRun(run: ReplayRun, maxTicks: number): boolean {
+  const { replay, sim } = run;
+  const stopTick = sim.tick + maxTicks;
+
+  while (!sim.gameOver && sim.tick < run.endTick && sim.tick < stopTick) {
+    while (run.dropIndex < replay.drops.length && replay.drops[run.dropIndex][0] <= sim.tick) {
+      dropMochi(sim, replay.drops[run.dropIndex][1]);
+      run.dropIndex++;
+    }
+    stepSimulation(sim);
+  }
+
+  return sim.gameOver || sim.tick >= run.endTick;
+}
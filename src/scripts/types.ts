@@ -1,3 +1,5 @@
+import type { SnapshotMochi } from './versus-protocol';
+
 export interface Point {
   x: number;
   y: number;
@@ -58,6 +60,9 @@ export interface Mochi {
   isDropping: boolean; // Currently being dropped by player
   hasLanded: boolean; // Has touched something after being dropped
   settleTimer: number; // Frames since landing - for game over grace period
+  mergeChain: number; // Merges in the cascade that made this mochi (0 for drops)
+  mergeChainUntil: number; // Last tick a merge with this mochi continues that cascade
+  overflowTicks: number; // Ticks spent resting above the overflow line (zen dissolves it)
   // Animation states
   blinkTimer: number; // Countdown to next blink
   blinkState: number; // 0 = open, >0 = closing/closed
@@ -82,7 +87,7 @@ export interface PhysicsConfig {
   squishRecovery: number;
 }
 
-export type HoveredButton = 'daily' | 'freeplay' | 'share' | null;
+export type HoveredButton = 'daily' | 'freeplay' | 'share' | 'archive' | 'stats' | 'levels' | 'retry' | 'next' | 'rematch' | null;
 
 export interface GameState {
   score: number;
@@ -116,8 +121,52 @@ export interface GameState {
   // Game mode
   gameMode: GameMode;
   dailyChallenge: DailyChallenge | null;
+  archiveMonth: string | null; // Month (YYYY-MM) shown in the daily archive calendar, while it's open
+  dailyHistory: DailyHistory; // Dailies finished on this device, by date
+  dailyStats: DailyStats | null; // Statistics panel on the daily results, while it's open
+  nameEditor: NameEditor | null; // Player name editor, opened from the leaderboard panel
+  seed: number; // Seeds tier sequence and physics randomness for this game
+  replay: Replay; // Inputs recorded for this game (or the replay being played back)
+  isReplay: boolean; // Playing back a recorded game instead of taking input
+  replayViewer: ReplayViewer | null; // Playback controls while watching a replay
   mergeCount: number; // Track merges for daily stats
   highestTierReached: number; // Track highest tier for daily stats
+  combo: number; // Merges in the current combo (0 before the first merge)
+  bestCombo: number; // Longest combo this game
+  ticksLeft: number | null; // Clock left in a timed mode (Mochi Rush)
+  // Puzzle mode
+  level: PuzzleLevel | null; // Level being played
+  nextLevel: PuzzleLevel | null; // The one after it, if any
+  levelSelect: LevelSelectEntry[] | null; // Level-select screen, while it's showing
+  dropsLeft: number | null; // Drops left in the level's supply
+  levelResult: LevelResult | null;
+  levelStars: number; // Stars earned by a won level
+  online: OnlineState | null; // Online versus: the match around this game
+}
+
+// Online versus: the relay connection and what we know of the opponent.
+// Outlives a single game so rematches keep the same room.
+export type OnlineStatus =
+  | 'connecting'
+  | 'waiting' // In the room, no opponent yet
+  | 'lobby' // Opponent here, not started
+  | 'playing'
+  | 'finished'
+  | 'offline'; // Connection failed or dropped
+
+// First board to overflow loses; a draw is both overflowing on the same tick
+export type OnlineResult = 'won' | 'lost' | 'draw' | 'forfeit';
+
+export interface OnlineState {
+  status: OnlineStatus;
+  room: string;
+  opponentName: string | null;
+  ready: boolean; // We've asked to start and wait on the opponent
+  opponentScore: number;
+  opponentMochis: SnapshotMochi[]; // Latest snapshot, for the live view
+  result: OnlineResult | null;
+  opponentVerified: boolean | null; // Whether the opponent's drops really earn their score
+  error: string | null;
 }
 
 export interface CherryBlossom {
@@ -189,6 +238,13 @@ export interface MergeParticle {
   life: number;
 }
 
+export interface ComboCallout {
+  x: number;
+  y: number;
+  combo: number;
+  life: number; // 1 → 0
+}
+
 export interface ImpactStar {
   x: number;
   y: number;
@@ -201,7 +257,36 @@ export interface ImpactStar {
   color: string;
 }
 
-export type GameMode = 'practice' | 'daily';
+// Zen never ends: mochi stuck above the line dissolve instead, and runs aren't ranked
+// Rush runs against a two-minute clock, where a dissolving mochi costs time
+// Puzzle plays a preset level (see PuzzleLevel) and isn't ranked either
+// Online is a free-play race against another player over the versus relay
+export type GameMode = 'practice' | 'daily' | 'rush' | 'zen' | 'puzzle' | 'online';
+
+// What a puzzle level asks for
+export type LevelGoal =
+  | { type: 'reachTier'; tier: number } // Merge up to this tier
+  | { type: 'clearTier'; tier: number } // Leave none of this tier on the board
+  | { type: 'score'; score: number };
+
+// A puzzle level, as authored in src/levels/*.json
+export interface PuzzleLevel {
+  id: string; // File name, which also orders the levels
+  name: string;
+  mochis: { tier: number; x: number; y: number }[]; // Starting board (board space)
+  drops: number[]; // Tiers dropped, in order - the level's whole supply
+  goal: LevelGoal;
+  stars: [twoStars: number, threeStars: number]; // Most drops used for 2 and 3 stars
+}
+
+export type LevelResult = 'won' | 'lost';
+
+// A tile on the level-select screen
+export interface LevelSelectEntry {
+  level: PuzzleLevel;
+  stars: number; // Best rating so far (0 = not cleared)
+  locked: boolean;
+}
 
 export interface DailyChallenge {
   date: string; // YYYY-MM-DD
@@ -210,4 +295,114 @@ export interface DailyChallenge {
   score: number;
   highestTier: number;
   mergeCount: number;
+  bestCombo?: number; // Missing on results saved before combos existed
+  archive?: boolean; // Played from the archive after the day was over (never ranked or saved)
+}
+
+// A finished daily, as kept in the local history (see daily.ts)
+export interface DailyHistoryEntry {
+  date: string; // YYYY-MM-DD
+  score: number;
+  highestTier: number;
+  mergeCount: number;
+  bestCombo?: number;
+  playedAt?: number; // Epoch ms the game ended (missing on results migrated from the old single-day key)
+  replay?: Replay; // Dropped if storage runs short
+}
+
+// Daily results by date
+export type DailyHistory = Record<string, DailyHistoryEntry>;
+
+// The daily statistics panel (see getDailyStats)
+export interface DailyStats {
+  played: number;
+  currentStreak: number;
+  bestStreak: number;
+  averageScore: number;
+  bestScore: number;
+  tierCounts: number[]; // Games by highest tier reached, indexed by tier
+}
+
+export interface Replay {
+  version: number;
+  seed: number;
+  mode: GameMode;
+  dailyDate?: string; // YYYY-MM-DD for daily runs
+  archive?: boolean; // A daily played from the archive (unranked)
+  level?: PuzzleLevel; // The level a puzzle run was played on
+  config: PhysicsConfig;
+  drops: [tick: number, x: number][]; // Board-space drop X, applied before that tick runs
+  endTick: number; // Tick the game ended on (0 while still running)
+  score: number;
+}
+
+export type ReplayControl = 'prevMerge' | 'playPause' | 'step' | 'nextMerge' | 'speed';
+
+export interface ReplayViewer {
+  paused: boolean;
+  speed: number; // Playback rate multiplier (0.25x - 8x)
+  tick: number; // Current playhead
+  endTick: number; // Timeline length
+  mergeTicks: number[]; // Ticks merges happened on, as far as playback has seen
+  scannedTick: number; // Furthest tick simulated so far
+  seekTarget: number | null; // Fast-forwarding towards this tick
+  mergeSearchFrom: number | null; // Fast-forwarding until a merge after this tick
+  scrubbing: boolean; // Dragging the timeline
+}
+
+// Leaderboard a run is ranked on: free play, daily (one board per day) or Mochi Rush
+export type LeaderboardGameMode = 'daily' | 'freeplay' | 'rush';
+
+// Body the game posts to the score server at game over
+export interface ScoreSubmission {
+  playerId: string; // The device's private player id (see player.ts)
+  name: string;
+  replay: Replay;
+}
+
+export type ScoreSubmissionResult =
+  | { accepted: true; score: number }
+  | { accepted: false; reason: string };
+
+// Body the game posts to rename a player on every board
+export interface PlayerRename {
+  playerId: string;
+  name: string;
+}
+
+export type PlayerRenameResult =
+  | { ok: true }
+  | { ok: false; reason: string };
+
+// Body the game posts to join a friend group by its invite code
+export interface GroupJoin {
+  playerId: string;
+  code: string;
+}
+
+// A group made or joined, by its invite code
+export type GroupResult =
+  | { ok: true; code: string }
+  | { ok: false; reason: string };
+
+// Which rankings the leaderboard panel shows: everyone's, or one of the
+// player's friend groups
+export interface LeaderboardScope {
+  groups: string[]; // Invite codes of the player's groups
+  group: string | null; // Null for everyone
+  notice: string | null; // Brief note under the tabs ("Invite link copied")
+}
+
+// Whether a name is free to rename to (another player's entries don't have it)
+export type NameCheckResult =
+  | { available: true }
+  | { available: false; reason: string };
+
+// The player name editor, open over the results
+export interface NameEditor {
+  draft: string;
+  caret: number; // Caret position in the draft
+  problem: string | null; // Why the draft can't be saved (see validatePlayerName)
+  availability: 'checking' | 'available' | 'unavailable' | 'unknown'; // Unknown when it couldn't be checked
+  saving: boolean;
 }
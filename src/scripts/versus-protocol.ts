@@ -0,0 +1,26 @@
+// Online versus: messages between the game and the relay (server/versus-relay.ts),
+// JSON over a WebSocket. The relay pairs two players per room and picks the seed
+// both boards are built from; everything else it forwards to the other player.
+
+// A mochi in a board snapshot: tier and centre, rounded to whole pixels
+export type SnapshotMochi = [tier: number, x: number, y: number];
+
+// Messages from a player to the relay
+export type VersusClientMessage =
+  | { type: 'join'; room: string; name: string }
+  | { type: 'ready' } // Start (or rematch) once both players have sent it
+  | { type: 'drop'; tick: number; x: number } // Every drop, so the opponent can re-simulate the run
+  | { type: 'snapshot'; tick: number; score: number; mochis: SnapshotMochi[] } // A few times a second, for the live view
+  | { type: 'result'; tick: number; score: number }; // The sender's board overflowed
+
+// Messages from the relay to a player. drop, snapshot and result are the
+// opponent's, passed through as sent.
+export type VersusRelayMessage =
+  | { type: 'joined'; player: 0 | 1 }
+  | { type: 'opponent'; name: string | null } // Opponent joined, or left (null)
+  | { type: 'start'; seed: number }
+  | { type: 'error'; reason: string }
+  | Extract<VersusClientMessage, { type: 'drop' | 'snapshot' | 'result' }>;
+
+// Snapshots are sent about this often
+export const SNAPSHOT_INTERVAL_MS = 200;
@@ -0,0 +1,93 @@
+import type { Container } from './types';
+import type { PhysicsEvent } from './physics-types';
+import { defaultConfig } from './physics';
+import { createSeededRandom, type SeededRandom } from './daily';
+import { createSimulation, stepSimulation, dropGarbageMochi, BOARD, type Simulation } from './simulation';
+
+// Local two-player versus: two boards side by side, fed the same tier sequence.
+// A big merge sends Vanilla "garbage" falling into the other player's container;
+// the first board to overflow loses. No DOM access - input, layout and drawing
+// live in mochi.ts and renderer.ts.
+
+export const GARBAGE_MIN_TIER = 5; // Matcha and up send garbage
+const GARBAGE_TIER = 0; // Vanilla
+const GARBAGE_INTERVAL_TICKS = 30; // Queued garbage falls one at a time, a quarter second apart
+
+export interface VersusPlayer {
+  sim: Simulation; // Each player has their own board, score and mochi array
+  container: Container; // Where the board sits on screen (versus view space)
+  dropX: number; // Aim, in board space
+  incomingGarbage: number; // Garbage queued to fall into this board
+  nextGarbageTick: number;
+}
+
+// 0 or 1 is the winning player; both boards overflowing on the same tick is a draw
+export type VersusResult = 0 | 1 | 'draw';
+
+export interface VersusMatch {
+  players: [VersusPlayer, VersusPlayer];
+  result: VersusResult | null;
+  garbageRandom: SeededRandom; // Where garbage falls
+}
+
+function createPlayer(seed: number, container: Container): VersusPlayer {
+  return {
+    sim: createSimulation(seed, defaultConfig, 'practice'),
+    container,
+    dropX: BOARD.width / 2,
+    incomingGarbage: 0,
+    nextGarbageTick: 0,
+  };
+}
+
+export function createVersusMatch(seed: number, containers: [Container, Container]): VersusMatch {
+  return {
+    players: [createPlayer(seed, containers[0]), createPlayer(seed, containers[1])],
+    result: null,
+    garbageRandom: createSeededRandom(seed),
+  };
+}
+
+// Vanilla sent for a merge into `tier`: two for a Matcha, one more per tier above
+export function getGarbageCount(tier: number): number {
+  return tier >= GARBAGE_MIN_TIER ? tier - GARBAGE_MIN_TIER + 2 : 0;
+}
+
+// Let the next queued garbage mochi fall, if one is due
+function deliverGarbage(match: VersusMatch, player: VersusPlayer): void {
+  if (player.incomingGarbage === 0 || player.sim.tick < player.nextGarbageTick) return;
+
+  const x = BOARD.wallThickness + match.garbageRandom() * (BOARD.width - BOARD.wallThickness * 2);
+  if (dropGarbageMochi(player.sim, x, GARBAGE_TIER)) {
+    player.incomingGarbage--;
+    player.nextGarbageTick = player.sim.tick + GARBAGE_INTERVAL_TICKS;
+  }
+}
+
+// Run one fixed tick on both boards and return each board's events
+export function stepVersusMatch(match: VersusMatch): [PhysicsEvent[], PhysicsEvent[]] {
+  if (match.result !== null) return [[], []];
+
+  const events = match.players.map(player => {
+    deliverGarbage(match, player);
+    return stepSimulation(player.sim);
+  }) as [PhysicsEvent[], PhysicsEvent[]];
+
+  // Big merges queue garbage for the opponent
+  events.forEach((playerEvents, i) => {
+    const opponent = match.players[1 - i];
+    for (const event of playerEvents) {
+      if (event.event === 'merge') {
+        opponent.incomingGarbage += getGarbageCount(event.tier);
+      }
+    }
+  });
+
+  const [firstOver, secondOver] = match.players.map(player => player.sim.gameOver);
+  if (firstOver && secondOver) {
+    match.result = 'draw';
+  } else if (firstOver || secondOver) {
+    match.result = firstOver ? 1 : 0;
+  }
+  return events;
+}
@@ -0,0 +1,84 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTodayString, setDailyRollover, daysBetween, getDayNumber, addDays } from '../src/scripts/daily';
+
+// The daily's date across daylight saving changes, in a Northern and a Southern
+// Hemisphere zone. Node picks up a new TZ as soon as it's set, so one run
+// covers both.
+const ZONES = [
+  { zone: 'America/New_York', transitions: ['2026-03-08', '2026-11-01'] },
+  { zone: 'Australia/Sydney', transitions: ['2026-04-05', '2026-10-04'] },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Local midnight at the start of a YYYY-MM-DD date, in the current TZ
+function localMidnight(dateStr: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+afterEach(() => {
+  setDailyRollover('utc');
+  delete process.env.TZ;
+});
+
+for (const { zone, transitions } of ZONES) {
+  for (const date of transitions) {
+    test(`local rollover turns over at midnight around ${date} in ${zone}`, () => {
+      process.env.TZ = zone;
+      setDailyRollover('local');
+
+      const midnight = localMidnight(date);
+      assert.equal(getTodayString(new Date(midnight.getTime() - 1000)), addDays(date, -1));
+      assert.equal(getTodayString(midnight), date);
+      assert.equal(getTodayString(new Date(localMidnight(addDays(date, 1)).getTime() - 1000)), date);
+      assert.equal(getTodayString(localMidnight(addDays(date, 1))), addDays(date, 1));
+    });
+
+    test(`local rollover neither skips nor repeats ${date} in ${zone}`, () => {
+      process.env.TZ = zone;
+      setDailyRollover('local');
+
+      // Hour by hour from the day before to the day after: three dates, in order,
+      // and the change day is an hour short or long
+      const hours = new Map<string, number>();
+      const start = localMidnight(addDays(date, -1)).getTime();
+      for (let time = start; time < start + 72 * HOUR_MS; time += HOUR_MS) {
+        const today = getTodayString(new Date(time));
+        hours.set(today, (hours.get(today) ?? 0) + 1);
+      }
+      assert.deepEqual([...hours.keys()].slice(0, 3), [addDays(date, -1), date, addDays(date, 1)]);
+      assert.equal(hours.get(addDays(date, -1)), 24);
+      assert.ok(Math.abs(hours.get(date)! - 24) === 1, `${date} should last 23 or 25 hours`);
+    });
+  }
+
+  test(`UTC rollover ignores the local date in ${zone}`, () => {
+    process.env.TZ = zone;
+    const now = new Date('2026-11-01T23:30:00Z');
+    assert.equal(getTodayString(now), '2026-11-01');
+    setDailyRollover('local');
+    assert.equal(getTodayString(now), zone === 'Australia/Sydney' ? '2026-11-02' : '2026-11-01');
+  });
+
+  test(`date arithmetic is unaffected by DST in ${zone}`, () => {
+    process.env.TZ = zone;
+
+    for (const date of transitions) {
+      const before = addDays(date, -1);
+      const after = addDays(date, 1);
+      assert.equal(addDays(before, 2), after);
+      assert.equal(addDays(after, -2), before);
+      assert.equal(daysBetween(before, after), 2);
+      assert.equal(daysBetween(after, before), -2);
+      assert.equal(getDayNumber(after) - getDayNumber(before), 2);
+      assert.equal(getDayNumber(date) - getDayNumber(before), 1);
+    }
+    assert.equal(daysBetween('2026-01-01', '2026-12-31'), 364);
+    assert.equal(addDays('2026-01-01', 364), '2026-12-31');
+    assert.equal(getDayNumber('2026-01-26'), 1);
+    assert.equal(getDayNumber('2026-03-08'), 42);
+    assert.equal(getDayNumber('2026-11-01'), 280);
+  });
+}
@@ -0,0 +1,196 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Replay } from '../src/scripts/types';
+import { defaultConfig } from '../src/scripts/physics';
+import { createReplay, finishReplay, recordDrop } from '../src/scripts/replay';
+import { GROUP_CODE_LENGTH, generateGroupCode, normalizeGroupCode, loadGroups, addGroup, loadSelectedGroup, saveSelectedGroup } from '../src/scripts/groups';
+import { createLocalBackend } from '../src/scripts/leaderboard-backend';
+import { createGroup, joinGroup } from '../server/groups';
+import { createScoreServer } from '../server/score-server';
+import { createMemoryScoreTable, hashPlayerId, type ScoreRow } from '../server/score-table';
+import { createMemoryStorage } from './memory-storage';
+
+// Friend groups: invite codes, joining, and group boards being the members'
+// entries and no one else's.
+
+const ALICE = 'alice-player-00000001';
+const BOBBY = 'bobby-player-00000001';
+const CAROL = 'carol-player-00000001';
+
+function row(playerId: string | undefined, name: string, score: number, gameMode: ScoreRow['game_mode'] = 'freeplay'): ScoreRow {
+  return { id: name, name, score, game_mode: gameMode, ...(playerId ? { player_id: hashPlayerId(playerId) } : {}) };
+}
+
+afterEach(() => {
+  delete (globalThis as { localStorage?: Storage }).localStorage;
+});
+
+// --- Codes ---
+
+test('generated codes are six characters from the unambiguous alphabet', () => {
+  const codes = new Set(Array.from({ length: 200 }, generateGroupCode));
+  for (const code of codes) {
+    assert.match(code, /^[A-HJ-NP-Z2-9]{6}$/);
+    assert.equal(normalizeGroupCode(code), code);
+  }
+  assert.ok(codes.size > 195, 'codes should rarely repeat');
+  assert.equal(GROUP_CODE_LENGTH, 6);
+});
+
+test('typed and pasted codes are normalized, and anything else refused', () => {
+  assert.equal(normalizeGroupCode('abc-def'), 'ABCDEF');
+  assert.equal(normalizeGroupCode(' AB CD EF '), 'ABCDEF');
+  assert.equal(normalizeGroupCode('xyz234'), 'XYZ234');
+
+  for (const input of ['ABCDE', 'ABCDEFG', 'ABCDE0', 'ABCDEO', 'ABCDE1', 'ABCDEI', 'ABC_EF', '', 'ÄBCDEF', null, undefined, 123456, ['ABCDEF']]) {
+    assert.equal(normalizeGroupCode(input), null, String(input));
+  }
+});
+
+test('the device remembers its groups and skips corrupt entries', () => {
+  const storage = createMemoryStorage();
+  (globalThis as { localStorage?: Storage }).localStorage = storage;
+
+  assert.deepEqual(loadGroups(), []);
+  assert.deepEqual(addGroup('ABCDEF'), ['ABCDEF']);
+  assert.deepEqual(addGroup('XYZ234'), ['ABCDEF', 'XYZ234']);
+  assert.deepEqual(addGroup('ABCDEF'), ['ABCDEF', 'XYZ234']);
+
+  // Only a group the device is in can be the one shown
+  saveSelectedGroup('XYZ234');
+  assert.equal(loadSelectedGroup(), 'XYZ234');
+  saveSelectedGroup('QQQQQQ');
+  assert.equal(loadSelectedGroup(), null);
+  saveSelectedGroup(null);
+  assert.equal(storage.getItem('mochiLeaderboardGroup'), null);
+
+  storage.setItem('mochiGroups', JSON.stringify(['ABCDEF', 'abcdef', 42, 'NOPE']));
+  assert.deepEqual(loadGroups(), ['ABCDEF']);
+  storage.setItem('mochiGroups', '{"not": "a list"}');
+  assert.deepEqual(loadGroups(), []);
+});
+
+// --- The score server ---
+
+test('a new group starts with its creator, and others join by code', async () => {
+  const table = createMemoryScoreTable();
+  const created = await createGroup(table, { playerId: ALICE });
+  assert.ok(created.ok);
+  assert.equal(normalizeGroupCode(created.code), created.code);
+
+  assert.deepEqual(await joinGroup(table, { playerId: BOBBY, code: created.code.toLowerCase() }), { ok: true, code: created.code });
+  // Joining again is fine
+  assert.deepEqual(await joinGroup(table, { playerId: BOBBY, code: created.code }), { ok: true, code: created.code });
+});
+
+test('joining needs a player id and a code for a group that exists', async () => {
+  const table = createMemoryScoreTable();
+  const created = await createGroup(table, { playerId: ALICE });
+  assert.ok(created.ok);
+  const unused = created.code === 'ABCDEF' ? 'ABCDEG' : 'ABCDEF';
+
+  assert.deepEqual(await joinGroup(table, { playerId: BOBBY, code: unused }), { ok: false, reason: 'No group with that code' });
+  assert.deepEqual(await joinGroup(table, { playerId: BOBBY, code: 'ABC' }), { ok: false, reason: 'Invalid invite code' });
+  assert.deepEqual(await joinGroup(table, { playerId: BOBBY }), { ok: false, reason: 'Invalid invite code' });
+  assert.deepEqual(await joinGroup(table, { playerId: 'short', code: created.code }), { ok: false, reason: 'Invalid player id' });
+  assert.deepEqual(await createGroup(table, { playerId: 'short' }), { ok: false, reason: 'Invalid player id' });
+  assert.deepEqual(await createGroup(table, null), { ok: false, reason: 'Invalid player id' });
+});
+
+test('a code already in use is swapped for a fresh one, a few times over', async () => {
+  const table = createMemoryScoreTable();
+  const tried: string[] = [];
+  let clashes = 3;
+  const clashing = {
+    ...table,
+    async createGroup(code: string, playerId: string) {
+      tried.push(code);
+      return clashes-- > 0 ? false : table.createGroup(code, playerId);
+    },
+  };
+
+  const created = await createGroup(clashing, { playerId: ALICE });
+  assert.ok(created.ok);
+  assert.equal(tried.length, 4);
+  assert.equal(created.code, tried[3]);
+
+  clashes = Infinity;
+  tried.length = 0;
+  assert.deepEqual(await createGroup(clashing, { playerId: ALICE }), { ok: false, reason: 'No free invite code' });
+  assert.equal(tried.length, 5);
+});
+
+test('group boards show the members\' entries only', async () => {
+  const table = createMemoryScoreTable([
+    row(ALICE, 'Alice', 300),
+    row(BOBBY, 'Bobby', 200),
+    row(CAROL, 'Carol', 500),
+    row(undefined, 'OldTimer', 900),
+    row(BOBBY, 'Bobby', 700, 'rush'),
+  ]);
+  const created = await createGroup(table, { playerId: ALICE });
+  assert.ok(created.ok);
+  await joinGroup(table, { playerId: BOBBY, code: created.code });
+  const other = await createGroup(table, { playerId: CAROL });
+  assert.ok(other.ok);
+
+  const server = createScoreServer({ table, memory: table, allowedOrigin: '*' });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const board = async (query: string) => {
+    const response = await fetch(`${url}/leaderboard?${query}`);
+    return { status: response.status, body: await response.json() as { name?: string }[] };
+  };
+  const names = async (query: string) => (await board(query)).body.map(entry => entry.name);
+
+  try {
+    assert.deepEqual(await names('mode=freeplay'), ['OldTimer', 'Carol', 'Alice', 'Bobby']);
+    assert.deepEqual(await names(`mode=freeplay&group=${created.code}`), ['Alice', 'Bobby']);
+    assert.deepEqual(await names(`mode=freeplay&group=${created.code.toLowerCase()}`), ['Alice', 'Bobby']);
+    assert.deepEqual(await names(`mode=rush&group=${created.code}`), ['Bobby']);
+    assert.deepEqual(await names(`mode=freeplay&group=${other.code}`), ['Carol']);
+
+    // A well-formed code no group has is an empty board; a malformed one is refused
+    const unused = [created.code, other.code].includes('ABCDEF') ? 'ABCDEG' : 'ABCDEF';
+    assert.deepEqual(await board(`mode=freeplay&group=${unused}`), { status: 200, body: [] });
+    assert.equal((await board('mode=freeplay&group=NOPE')).status, 400);
+    assert.equal((await board('mode=freeplay&group=')).status, 400);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});
+
+// --- The local backend, which stands in for the server ---
+
+function localRun(score: number): Replay {
+  const replay = createReplay(1, 'practice', defaultConfig);
+  recordDrop(replay, 0, 160);
+  finishReplay(replay, 900, score);
+  return replay;
+}
+
+test('the local backend keeps groups the same way', async () => {
+  const storage = createMemoryStorage();
+  const backend = createLocalBackend(storage);
+  for (const [playerId, name, score] of [[ALICE, 'Alice', 300], [BOBBY, 'Bobby', 200], [CAROL, 'Carol', 500]] as const) {
+    await backend.submit({ playerId, name, replay: localRun(score) });
+  }
+
+  const created = await backend.createGroup(ALICE);
+  assert.ok(created.ok);
+  assert.equal(normalizeGroupCode(created.code), created.code);
+  assert.deepEqual(await backend.joinGroup({ playerId: BOBBY, code: created.code }), { ok: true, code: created.code });
+  assert.deepEqual(await backend.joinGroup({ playerId: BOBBY, code: created.code }), { ok: true, code: created.code });
+  const unused = created.code === 'ABCDEF' ? 'ABCDEG' : 'ABCDEF';
+  assert.deepEqual(await backend.joinGroup({ playerId: CAROL, code: unused }), { ok: false, reason: 'No group with that code' });
+
+  const names = async (group?: string) => (await backend.fetchEntries({ mode: 'freeplay', group, limit: 10 })).map(entry => entry.name);
+  assert.deepEqual(await names(), ['Carol', 'Alice', 'Bobby']);
+  assert.deepEqual(await names(created.code), ['Alice', 'Bobby']);
+  assert.deepEqual(await names(unused), []);
+
+  // Groups outlive the page
+  const reloaded = await createLocalBackend(storage).fetchEntries({ mode: 'freeplay', group: created.code, limit: 10 });
+  assert.deepEqual(reloaded.map(entry => entry.name), ['Alice', 'Bobby']);
+});
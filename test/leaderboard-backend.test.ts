@@ -0,0 +1,86 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Replay } from '../src/scripts/types';
+import { defaultConfig } from '../src/scripts/physics';
+import { createReplay } from '../src/scripts/replay';
+import { createRestBackend } from '../src/scripts/leaderboard-backend';
+
+// What the game makes of the score server's answers: a verdict ends a run's
+// trip through the score queue, a throw sends it round again.
+
+const SERVER = 'https://scores.example';
+const PLAYER_ID = 'test-player-0000000001';
+const replay: Replay = { ...createReplay(1, 'practice', defaultConfig), score: 100 };
+const submission = { playerId: PLAYER_ID, name: 'MochiFan', replay };
+
+const realFetch = globalThis.fetch;
+const requests: string[] = [];
+
+// Answer every request with this response (or fail it, for an Error)
+function stubFetch(answer: () => Response | Error): void {
+  globalThis.fetch = async input => {
+    requests.push(String(input));
+    const response = answer();
+    if (response instanceof Error) throw response;
+    return response;
+  };
+}
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+const html = (status: number) =>
+  new Response('<html><body><h1>Request Entity Too Large</h1></body></html>', { status, headers: { 'Content-Type': 'text/html' } });
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  requests.length = 0;
+});
+
+test('verdicts come back as the server gave them', async () => {
+  const backend = createRestBackend(SERVER);
+
+  stubFetch(() => json({ accepted: true, score: 100 }, 200));
+  assert.deepEqual(await backend.submit(submission), { accepted: true, score: 100 });
+  assert.deepEqual(requests, [`${SERVER}/submit-score`]);
+
+  stubFetch(() => json({ accepted: false, reason: 'Replay is too long' }, 422));
+  assert.deepEqual(await backend.submit(submission), { accepted: false, reason: 'Replay is too long' });
+
+  stubFetch(() => json({ ok: false, reason: 'Taken by another player' }, 422));
+  assert.deepEqual(await backend.rename({ playerId: PLAYER_ID, name: 'Bobby' }), { ok: false, reason: 'Taken by another player' });
+});
+
+test('a refusal that isn\'t the score server\'s is still final', async () => {
+  const backend = createRestBackend(SERVER);
+
+  for (const status of [400, 403, 404, 413]) {
+    stubFetch(() => html(status));
+    assert.deepEqual(await backend.submit(submission), { accepted: false, reason: `Refused by the score server (${status})` });
+  }
+
+  stubFetch(() => new Response('Bad Request', { status: 400 }));
+  assert.deepEqual(await backend.rename({ playerId: PLAYER_ID, name: 'Bobby' }), { ok: false, reason: 'Refused by the score server (400)' });
+  assert.deepEqual(await backend.checkName({ playerId: PLAYER_ID, name: 'Bobby' }), { available: false, reason: 'Refused by the score server (400)' });
+  assert.deepEqual(await backend.createGroup(PLAYER_ID), { ok: false, reason: 'Refused by the score server (400)' });
+  assert.deepEqual(await backend.joinGroup({ playerId: PLAYER_ID, code: 'ABCDEF' }), { ok: false, reason: 'Refused by the score server (400)' });
+
+  // JSON, but not a verdict
+  stubFetch(() => json({ error: 'Forbidden' }, 403));
+  assert.deepEqual(await backend.submit(submission), { accepted: false, reason: 'Refused by the score server (403)' });
+});
+
+test('no verdict means try again later', async () => {
+  const backend = createRestBackend(SERVER);
+
+  for (const status of [500, 502, 503, 408, 429]) {
+    stubFetch(() => html(status));
+    await assert.rejects(backend.submit(submission), new RegExp(String(status)));
+  }
+
+  stubFetch(() => new TypeError('Failed to fetch'));
+  await assert.rejects(backend.submit(submission), /Failed to fetch/);
+
+  // A captive portal's page in place of the answer
+  stubFetch(() => html(200));
+  await assert.rejects(backend.submit(submission));
+});
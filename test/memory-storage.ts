@@ -0,0 +1,14 @@
+// localStorage's interface over a Map, for code that takes a Storage (or reads
+// the global one) under Node
+export function createMemoryStorage(): Storage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    get length() { return items.size; },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: key => { items.delete(key); },
+    clear: () => items.clear(),
+  };
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GameMode, Replay } from '../src/scripts/types';
+import type { WorkerInputMessage } from '../src/scripts/physics-types';
+import { serializeMochi, TICK_DT } from '../src/scripts/physics-types';
+import { defaultConfig } from '../src/scripts/physics';
+import { createSeededRandom } from '../src/scripts/daily';
+import { createReplay, recordDrop, finishReplay, getReplayLength } from '../src/scripts/replay';
+import { BOARD, createSimulation, dropMochi, simulateReplay, type Simulation } from '../src/scripts/simulation';
+import { createWorkerBoard, createWorkerDriver, postWorkerBatch, applyWorkerUpdate, type WorkerUpdate } from '../src/scripts/physics-bridge';
+
+// A game played the way the worker path plays it - physics-bridge.ts on both
+// ends, drops only between batches of ticks, and every message crossing as a
+// structured clone - has to end on the same board as its replay stepped one
+// tick at a time on the main thread.
+
+const MAX_BATCH_TICKS = Math.round(3 / TICK_DT); // Largest batch the game posts (its MAX_TICK_BACKLOG)
+const MAX_TICKS = 120 * 60 * 10;
+
+function playThroughWorker(seed: number, mode: GameMode, maxDrops: number, shared: boolean): { sim: Simulation; replay: Replay } {
+  const sim = createSimulation(seed, defaultConfig, mode);
+  const replay = createReplay(seed, mode, sim.config);
+  const random = createSeededRandom(seed + 0x9e3779b9);
+
+  const updates: WorkerUpdate[] = [];
+  const worker = createWorkerBoard({
+    postMessage: (message, transfer) => {
+      if (message.type === 'updated') updates.push(structuredClone(message, { transfer }));
+    },
+  }, shared);
+  const driver = createWorkerDriver({
+    postMessage: (message: WorkerInputMessage, transfer) => worker(structuredClone(message, { transfer })),
+  });
+  driver.sharedState = shared;
+  driver.worker.postMessage({ type: 'init', config: sim.config, container: BOARD }, []);
+
+  let endTick = MAX_TICKS;
+  while (!sim.gameOver && sim.tick < endTick) {
+    if (sim.canDrop && endTick === MAX_TICKS) {
+      const tick = sim.tick;
+      const x = BOARD.wallThickness + random() * (BOARD.width - 2 * BOARD.wallThickness);
+      if (dropMochi(sim, x)) {
+        recordDrop(replay, tick, x);
+      }
+      if (replay.drops.length >= maxDrops) {
+        endTick = getReplayLength(replay);
+      }
+    }
+
+    const wanted = 1 + Math.floor(random() * MAX_BATCH_TICKS);
+    postWorkerBatch(driver, sim, Math.min(wanted, endTick - sim.tick));
+    const update = updates.shift();
+    if (!update) continue;
+    applyWorkerUpdate(driver, update);
+
+    const gameOver = update.events.find(e => e.event === 'gameOver');
+    if (gameOver) {
+      finishReplay(replay, gameOver.tick, sim.score);
+    } else if (sim.gameOver) {
+      finishReplay(replay, sim.tick - 1, sim.score); // The clock ran out
+    }
+  }
+
+  return { sim, replay };
+}
+
+function assertSameBoard(actual: Simulation, expected: Simulation): void {
+  for (const key of ['score', 'mergeCount', 'bestCombo', 'highestTier', 'gameOver'] as const) {
+    assert.equal(actual[key], expected[key], key);
+  }
+  // Ids come from a global counter, so they differ between two games in one process
+  const withoutIds = (sim: Simulation) => sim.mochis.map(mochi => ({ ...serializeMochi(mochi), id: 0 }));
+  assert.deepEqual(withoutIds(actual), withoutIds(expected));
+}
+
+for (const { mode, seed, shared } of [
+  { mode: 'practice', seed: 3, shared: false },
+  { mode: 'practice', seed: 11, shared: true },
+  { mode: 'rush', seed: 7, shared: false },
+  { mode: 'zen', seed: 5, shared: true },
+] as const) {
+  test(`worker batches match single ticks: ${mode}, seed ${seed}, ${shared ? 'shared' : 'transferred'} state`, () => {
+    const batched = playThroughWorker(seed, mode, 40, shared);
+    assert.ok(batched.sim.mergeCount > 0, 'the game should get as far as merging');
+    assertSameBoard(batched.sim, simulateReplay(batched.replay));
+  });
+}
@@ -0,0 +1,175 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import type { Replay } from '../src/scripts/types';
+import { defaultConfig } from '../src/scripts/physics';
+import { createReplay, finishReplay, recordDrop } from '../src/scripts/replay';
+import { validatePlayerName, setNameBlocklist, parseNameBlocklist } from '../src/scripts/player';
+import { createLocalBackend } from '../src/scripts/leaderboard-backend';
+import { checkPlayerName, renamePlayer } from '../server/rename-player';
+import { createScoreServer } from '../server/score-server';
+import { createMemoryScoreTable, hashPlayerId, type ScoreRow } from '../server/score-table';
+
+// Names are public: every board shows them. These are the rules that keep
+// blocked words and other players' names off.
+
+const ALICE = 'alice-player-00000001';
+const BOBBY = 'bobby-player-00000001';
+
+afterEach(() => {
+  setNameBlocklist(parseNameBlocklist(undefined));
+});
+
+function row(playerId: string | undefined, name: string, score = 100): ScoreRow {
+  return { id: `${name}-${score}`, name, score, game_mode: 'freeplay', ...(playerId ? { player_id: hashPlayerId(playerId) } : {}) };
+}
+
+// --- The rules ---
+
+test('names are 3 to 32 characters, after trimming', () => {
+  assert.equal(validatePlayerName(''), 'Name is empty');
+  assert.equal(validatePlayerName('   '), 'Name is empty');
+  assert.equal(validatePlayerName('ab'), 'Name needs at least 3 characters');
+  assert.equal(validatePlayerName('  ab  '), 'Name needs at least 3 characters');
+  assert.equal(validatePlayerName('abc'), null);
+  assert.equal(validatePlayerName('a'.repeat(32)), null);
+  assert.equal(validatePlayerName(` ${'a'.repeat(32)} `), null);
+  assert.equal(validatePlayerName('a'.repeat(33)), 'Name is longer than 32 characters');
+  assert.equal(validatePlayerName(undefined), 'Name is empty');
+  assert.equal(validatePlayerName(42), 'Name is empty');
+});
+
+test('names use letters, numbers, spaces and _ . \' - only', () => {
+  for (const name of ['Mochi Fan', 'mochi_fan.2', "O'Brien-Smith", 'Zoë', 'もち大好き', 'Ελένη']) {
+    assert.equal(validatePlayerName(name), null, name);
+  }
+  for (const name of ['<script>', 'Mochi🍡', 'a\tb c', 'semi;colon', 'ab\u202ecd']) {
+    assert.equal(validatePlayerName(name), "Use letters, numbers, spaces and _ . ' - only", name);
+  }
+  assert.equal(validatePlayerName('_._'), 'Name needs a letter or number');
+});
+
+test('blocked words are caught through case, look-alikes and separators', () => {
+  for (const name of ['admin', 'TheAdmin', 'Adm1n', 'a.d.m.i.n', 'a d m i n', 'N4Z1', 'Ädmin']) {
+    assert.equal(validatePlayerName(name), "That name isn't allowed", name);
+  }
+  assert.equal(validatePlayerName('Administrator'), "That name isn't allowed");
+  assert.equal(validatePlayerName('Mochi Fan'), null);
+});
+
+test('the blocklist can be replaced', () => {
+  setNameBlocklist(parseNameBlocklist('mochi, Dango'));
+  assert.equal(validatePlayerName('Mochi Fan'), "That name isn't allowed");
+  assert.equal(validatePlayerName('dango lover'), "That name isn't allowed");
+  assert.equal(validatePlayerName('admin'), null);
+
+  setNameBlocklist(parseNameBlocklist(''));
+  assert.equal(validatePlayerName('admin'), null);
+});
+
+// --- The score server ---
+
+test('a name is taken when another player uses it, in any case', async () => {
+  const table = createMemoryScoreTable([row(ALICE, 'Alice'), row(undefined, 'OldTimer')]);
+
+  assert.deepEqual(await checkPlayerName(table, { playerId: BOBBY, name: 'alice' }), { available: false, reason: 'Taken by another player' });
+  assert.deepEqual(await checkPlayerName(table, { playerId: BOBBY, name: ' ALICE ' }), { available: false, reason: 'Taken by another player' });
+  // Rows from before player ids keep their names to themselves
+  assert.deepEqual(await checkPlayerName(table, { playerId: BOBBY, name: 'OldTimer' }), { available: false, reason: 'Taken by another player' });
+
+  // Not by the player who already has it
+  assert.deepEqual(await checkPlayerName(table, { playerId: ALICE, name: 'ALICE' }), { available: true });
+  assert.deepEqual(await checkPlayerName(table, { playerId: BOBBY, name: 'Bobby' }), { available: true });
+});
+
+test('name checks apply the rules and need a player id', async () => {
+  const table = createMemoryScoreTable();
+  assert.deepEqual(await checkPlayerName(table, { playerId: BOBBY, name: 'Adm1n' }), { available: false, reason: "That name isn't allowed" });
+  assert.deepEqual(await checkPlayerName(table, { playerId: BOBBY, name: 'ab' }), { available: false, reason: 'Name needs at least 3 characters' });
+  assert.deepEqual(await checkPlayerName(table, { playerId: 'short', name: 'Bobby' }), { available: false, reason: 'Invalid player id' });
+  assert.deepEqual(await checkPlayerName(table, null), { available: false, reason: 'Invalid player id' });
+});
+
+test('a rename changes every one of the player\'s rows, and nobody else\'s', async () => {
+  const table = createMemoryScoreTable([
+    row(BOBBY, 'Bobby', 100),
+    { ...row(BOBBY, 'Bobby', 200), game_mode: 'rush' },
+    row(ALICE, 'Alice', 300),
+  ]);
+
+  assert.deepEqual(await renamePlayer(table, { playerId: BOBBY, name: '  Robert  ' }), { ok: true });
+  assert.deepEqual(table.rows.map(r => r.name), ['Robert', 'Robert', 'Alice']);
+});
+
+test('renames are refused for blocked, malformed and taken names', async () => {
+  const table = createMemoryScoreTable([row(BOBBY, 'Bobby'), row(ALICE, 'Alice'), row(undefined, 'OldTimer')]);
+
+  const refusals: [unknown, string][] = [
+    [{ playerId: BOBBY, name: 'alice' }, 'Taken by another player'],
+    [{ playerId: BOBBY, name: 'OldTimer' }, 'Taken by another player'],
+    [{ playerId: BOBBY, name: 'Sh1t Head' }, "That name isn't allowed"],
+    [{ playerId: BOBBY, name: 'x' }, 'Name needs at least 3 characters'],
+    [{ playerId: BOBBY, name: '<b>' }, "Use letters, numbers, spaces and _ . ' - only"],
+    [{ playerId: 'not an id!', name: 'Robert' }, 'Invalid player id'],
+  ];
+  for (const [body, reason] of refusals) {
+    assert.deepEqual(await renamePlayer(table, body), { ok: false, reason }, JSON.stringify(body));
+  }
+  assert.deepEqual(table.rows.map(r => r.name), ['Bobby', 'Alice', 'OldTimer']);
+});
+
+test('/check-name and /rename-player answer refusals over HTTP', async () => {
+  const table = createMemoryScoreTable([row(ALICE, 'Alice'), row(BOBBY, 'Bobby')]);
+  const server = createScoreServer({ table, memory: table, allowedOrigin: '*' });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const post = (path: string, body: unknown) =>
+    fetch(`${url}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+
+  try {
+    const check = await post('/check-name', { playerId: BOBBY, name: 'Alice' });
+    assert.equal(check.status, 200);
+    assert.deepEqual(await check.json(), { available: false, reason: 'Taken by another player' });
+
+    const rename = await post('/rename-player', { playerId: BOBBY, name: 'Alice' });
+    assert.equal(rename.status, 422);
+    assert.deepEqual(await rename.json(), { ok: false, reason: 'Taken by another player' });
+
+    const blocked = await post('/rename-player', { playerId: BOBBY, name: 'Official Mochi' });
+    assert.equal(blocked.status, 422);
+    assert.deepEqual(await blocked.json(), { ok: false, reason: "That name isn't allowed" });
+
+    const renamed = await post('/rename-player', { playerId: BOBBY, name: 'Robert' });
+    assert.equal(renamed.status, 200);
+    assert.deepEqual(table.rows.map(r => r.name), ['Alice', 'Robert']);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});
+
+// --- The local backend, which stands in for the server ---
+
+function localRun(score: number): Replay {
+  const replay = createReplay(1, 'practice', defaultConfig);
+  recordDrop(replay, 0, 160);
+  finishReplay(replay, 900, score);
+  return replay;
+}
+
+test('the local backend keeps names the same way', async () => {
+  const backend = createLocalBackend(null);
+  assert.deepEqual(await backend.submit({ playerId: ALICE, name: 'Alice', replay: localRun(100) }), { accepted: true, score: 100 });
+
+  // A first run under someone else's name is refused, a later one keeps the player's name
+  assert.deepEqual(await backend.submit({ playerId: BOBBY, name: 'ALICE', replay: localRun(200) }), { accepted: false, reason: 'Taken by another player' });
+  assert.deepEqual(await backend.submit({ playerId: BOBBY, name: 'Bobby', replay: localRun(200) }), { accepted: true, score: 200 });
+  assert.deepEqual(await backend.submit({ playerId: BOBBY, name: 'Alice', replay: { ...localRun(300), mode: 'rush' } }), { accepted: true, score: 300 });
+
+  assert.deepEqual(await backend.checkName({ playerId: BOBBY, name: 'alice' }), { available: false, reason: 'Taken by another player' });
+  assert.deepEqual(await backend.rename({ playerId: BOBBY, name: 'Alice' }), { ok: false, reason: 'Taken by another player' });
+  assert.deepEqual(await backend.rename({ playerId: BOBBY, name: 'Robert' }), { ok: true });
+
+  const names = async (mode: 'freeplay' | 'rush') => (await backend.fetchEntries({ mode, limit: 10 })).map(entry => entry.name);
+  assert.deepEqual(await names('freeplay'), ['Robert', 'Alice']);
+  assert.deepEqual(await names('rush'), ['Robert']);
+});
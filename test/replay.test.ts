@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, readFileSync } from 'node:fs';
+import type { GameMode, PuzzleLevel, Replay } from '../src/scripts/types';
+import { defaultConfig } from '../src/scripts/physics';
+import { createReplay, parseReplay, serializeReplay } from '../src/scripts/replay';
+import { simulateReplay } from '../src/scripts/simulation';
+
+// Replays come from links and dropped files as well as from the game, so
+// parseReplay is all that stands between a hand-edited one and the simulation.
+
+const LEVELS_DIR = new URL('../src/levels/', import.meta.url);
+
+const levels: PuzzleLevel[] = readdirSync(LEVELS_DIR).sort().map(file => ({
+  id: file.replace(/\.json$/, ''),
+  ...JSON.parse(readFileSync(new URL(file, LEVELS_DIR), 'utf8')),
+}));
+
+const level = levels[0];
+
+function puzzleReplay(changes: Record<string, unknown>): string {
+  return serializeReplay(createReplay(1, 'puzzle', defaultConfig, undefined, { ...level, ...changes } as PuzzleLevel));
+}
+
+test('every bundled level makes a playable puzzle replay', () => {
+  for (const bundled of levels) {
+    const replay = parseReplay(serializeReplay(createReplay(1, 'puzzle', defaultConfig, undefined, bundled)));
+    assert.ok(replay, bundled.id);
+    simulateReplay(replay);
+  }
+});
+
+test('puzzle replays need a level', () => {
+  const { level: _level, ...replay } = createReplay(1, 'puzzle', defaultConfig, undefined, level);
+  assert.equal(parseReplay(JSON.stringify(replay)), null);
+});
+
+test('only puzzle replays may carry a level', () => {
+  for (const mode of ['practice', 'daily', 'rush', 'zen', 'online'] as GameMode[]) {
+    const forged: Replay = { ...createReplay(1, mode, defaultConfig, mode === 'daily' ? '2026-10-19' : undefined), level };
+    assert.equal(parseReplay(serializeReplay(forged)), null, mode);
+    assert.equal(parseReplay(JSON.stringify({ ...forged, level: null })), null, `${mode} with a null level`);
+  }
+});
+
+test('level tiers must be ones the game has', () => {
+  for (const tier of [99, 11, -1, 1.5, '1', null]) {
+    assert.equal(parseReplay(puzzleReplay({ mochis: [{ tier, x: 100, y: 400 }] })), null, `board tier ${tier}`);
+    assert.equal(parseReplay(puzzleReplay({ drops: [0, tier] })), null, `drop tier ${tier}`);
+    assert.equal(parseReplay(puzzleReplay({ goal: { type: 'reachTier', tier } })), null, `goal tier ${tier}`);
+  }
+  assert.ok(parseReplay(puzzleReplay({ mochis: [{ tier: 10, x: 160, y: 300 }], drops: [10] })));
+});
+
+test('starting mochis must be on the board', () => {
+  const positions: [unknown, unknown][] = [
+    [null, 400], [100, null], ['100', 400],
+    [14, 400], [306, 400], // Inside the walls
+    [100, -1], [100, 436], // Between the top and the floor
+    [1e9, 400],
+  ];
+  for (const [x, y] of positions) {
+    assert.equal(parseReplay(puzzleReplay({ mochis: [{ tier: 0, x, y }] })), null, `${x}, ${y}`);
+  }
+  assert.equal(parseReplay(puzzleReplay({ mochis: [null] })), null);
+  assert.ok(parseReplay(puzzleReplay({ mochis: [{ tier: 0, x: 15, y: 435 }, { tier: 0, x: 305, y: 0 }] })));
+});
+
+test('a level needs drops, a goal and star thresholds', () => {
+  assert.equal(parseReplay(puzzleReplay({ drops: [] })), null);
+  assert.equal(parseReplay(puzzleReplay({ drops: 3 })), null);
+
+  for (const goal of [undefined, null, 'reachTier', {}, { type: 'win' }, { type: 'reachTier' }, { type: 'score' }, { type: 'score', score: 0 }, { type: 'score', score: '500' }]) {
+    assert.equal(parseReplay(puzzleReplay({ goal })), null, JSON.stringify(goal));
+  }
+  assert.ok(parseReplay(puzzleReplay({ goal: { type: 'clearTier', tier: 3 } })));
+  assert.ok(parseReplay(puzzleReplay({ goal: { type: 'score', score: 500 } })));
+
+  for (const stars of [undefined, [3], [3, 2, 1], [3, 0], [3, 1.5]]) {
+    assert.equal(parseReplay(puzzleReplay({ stars })), null, JSON.stringify(stars));
+  }
+  assert.equal(parseReplay(puzzleReplay({ id: 4 })), null);
+  assert.equal(parseReplay(puzzleReplay({ name: undefined })), null);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Replay } from '../src/scripts/types';
+import { defaultConfig } from '../src/scripts/physics';
+import { createReplay, recordDrop, finishReplay } from '../src/scripts/replay';
+import { getRunId, getRetryDelay, loadScoreQueue, enqueueSubmission, dequeueSubmission } from '../src/scripts/score-queue';
+import { createMemoryStorage } from './memory-storage';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+function finishedRun(seed: number, score: number): Replay {
+  const replay = createReplay(seed, 'practice', defaultConfig);
+  recordDrop(replay, 0, 160);
+  finishReplay(replay, 900, score);
+  return replay;
+}
+
+const submission = (replay: Replay) => ({ playerId: 'test-player-0000000001', name: 'MochiFan', replay });
+
+test('retries back off from five seconds, doubling up to ten minutes', () => {
+  const delays = Array.from({ length: 20 }, (_, i) => getRetryDelay(i + 1));
+  assert.deepEqual(delays.slice(0, 8), [5, 10, 20, 40, 80, 160, 320, 600].map(s => s * SECOND));
+  assert.ok(delays.slice(7).every(delay => delay === 10 * MINUTE));
+});
+
+test('a failed run is kept with its next try scheduled', () => {
+  const storage = createMemoryStorage();
+  const run = finishedRun(1, 500);
+
+  const queue = enqueueSubmission(submission(run), NOW, storage);
+  assert.equal(queue.length, 1);
+  assert.equal(queue[0].runId, getRunId(run));
+  assert.equal(queue[0].attempts, 1);
+  assert.equal(queue[0].nextAttemptAt, NOW + 5 * SECOND);
+
+  // Still there on the next visit
+  assert.deepEqual(loadScoreQueue(storage), queue);
+});
+
+test('each further failure of the same run waits longer instead of queueing it again', () => {
+  const storage = createMemoryStorage();
+  const run = finishedRun(1, 500);
+
+  let now = NOW;
+  const waits: number[] = [];
+  for (let i = 0; i < 6; i++) {
+    const [entry] = enqueueSubmission(submission(run), now, storage);
+    waits.push(entry.nextAttemptAt - now);
+    now = entry.nextAttemptAt;
+  }
+  assert.deepEqual(waits, [5, 10, 20, 40, 80, 160].map(s => s * SECOND));
+
+  const queue = loadScoreQueue(storage);
+  assert.equal(queue.length, 1);
+  assert.equal(queue[0].attempts, 6);
+});
+
+test('only the newest twenty runs are kept', () => {
+  const storage = createMemoryStorage();
+  for (let seed = 1; seed <= 25; seed++) {
+    enqueueSubmission(submission(finishedRun(seed, 100 * seed)), NOW + seed, storage);
+  }
+  const queue = loadScoreQueue(storage);
+  assert.equal(queue.length, 20);
+  assert.deepEqual(queue.map(entry => entry.replay.seed), Array.from({ length: 20 }, (_, i) => i + 6));
+});
+
+test('answered runs come off the queue, and an empty queue leaves nothing stored', () => {
+  const storage = createMemoryStorage();
+  const first = finishedRun(1, 500);
+  const second = finishedRun(2, 700);
+  enqueueSubmission(submission(first), NOW, storage);
+  enqueueSubmission(submission(second), NOW, storage);
+
+  assert.deepEqual(dequeueSubmission(getRunId(first), storage).map(entry => entry.runId), [getRunId(second)]);
+  assert.equal(loadScoreQueue(storage).length, 1);
+  assert.deepEqual(dequeueSubmission(getRunId(second), storage), []);
+  assert.equal(storage.items.size, 0);
+});
+
+test('different runs get different ids, and the same run the same one', () => {
+  assert.equal(getRunId(finishedRun(1, 500)), getRunId(finishedRun(1, 500)));
+  assert.notEqual(getRunId(finishedRun(1, 500)), getRunId(finishedRun(1, 600)));
+  assert.notEqual(getRunId(finishedRun(1, 500)), getRunId(finishedRun(2, 500)));
+});
+
+test('an unreadable or missing store reads as an empty queue', () => {
+  const storage = createMemoryStorage();
+  storage.setItem('mochiScoreQueue', '{not json');
+  assert.deepEqual(loadScoreQueue(storage), []);
+  assert.deepEqual(loadScoreQueue(null), []);
+  assert.equal(enqueueSubmission(submission(finishedRun(1, 500)), NOW, null).length, 1);
+});
@@ -0,0 +1,252 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import type { GameMode, PuzzleLevel, Replay } from '../src/scripts/types';
+import { defaultConfig } from '../src/scripts/physics';
+import { addDays, createSeededRandom, getSeedFromDate } from '../src/scripts/daily';
+import { createReplay, recordDrop, finishReplay } from '../src/scripts/replay';
+import { BOARD, createSimulation, dropMochi, stepSimulation, simulateReplay, getRulesForMode } from '../src/scripts/simulation';
+import { verifyReplay } from '../server/verify-replay';
+import { submitScore } from '../server/submit-score';
+import { createScoreServer } from '../server/score-server';
+import { createMemoryScoreTable, hashPlayerId } from '../server/score-table';
+
+// The score server is what keeps made-up scores off the boards: every run is
+// re-simulated, and only what it really scores is kept.
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const TODAY = '2026-10-19';
+const PLAYER_ID = 'test-player-0000000001';
+const RUSH_CLOCK_TICKS = getRulesForMode('rush').timeLimitTicks!;
+
+// A real game's recording: drops at seeded random positions as soon as the
+// cooldown allows, then played on until the board has had time to settle
+function playReplay(mode: GameMode, seed: number, drops: number, dailyDate?: string): Replay {
+  const sim = createSimulation(seed, defaultConfig, mode);
+  const replay = createReplay(seed, mode, sim.config, dailyDate);
+  const random = createSeededRandom(seed + 0x9e3779b9);
+
+  while (!sim.gameOver && replay.drops.length < drops) {
+    if (sim.canDrop) {
+      const tick = sim.tick;
+      const x = BOARD.wallThickness + random() * (BOARD.width - 2 * BOARD.wallThickness);
+      if (dropMochi(sim, x)) recordDrop(replay, tick, x);
+    }
+    stepSimulation(sim);
+  }
+  const played = simulateReplay(replay);
+  finishReplay(replay, played.tick - 1, played.score);
+  return replay;
+}
+
+const practiceRun = playReplay('practice', 3, 12);
+const rushRun = playReplay('rush', 7, 12);
+const dailyRun = playReplay('daily', getSeedFromDate(TODAY), 12, TODAY);
+
+const submission = (replay: Replay, playerId = PLAYER_ID, name = 'MochiFan') => ({ playerId, name, replay });
+
+// --- verifyReplay ---
+
+test('a real run verifies with the score it earns', () => {
+  const verdict = verifyReplay(practiceRun, NOW);
+  assert.equal(verdict.ok, true);
+  assert.ok(verdict.ok && verdict.score > 0, 'the run should score');
+  assert.equal(verdict.ok && verdict.score, simulateReplay(practiceRun).score);
+});
+
+test('replays with a modified physics config are rejected', () => {
+  const verdict = verifyReplay({ ...practiceRun, config: { ...practiceRun.config, gravity: 0.2 } }, NOW);
+  assert.deepEqual(verdict, { ok: false, reason: 'Replay uses a modified physics config' });
+
+  const extraKey = { ...practiceRun.config, boost: 1 } as unknown as Replay['config'];
+  assert.equal(verifyReplay({ ...practiceRun, config: extraKey }, NOW).ok, false);
+});
+
+test('daily replays must match an open day and its seed', () => {
+  assert.equal(verifyReplay(dailyRun, NOW).ok, true);
+
+  const { dailyDate: _date, ...undated } = dailyRun;
+  assert.deepEqual(verifyReplay(undated, NOW), { ok: false, reason: 'Daily replay has no date' });
+
+  const stale = addDays(TODAY, -2);
+  assert.deepEqual(
+    verifyReplay({ ...dailyRun, dailyDate: stale, seed: getSeedFromDate(stale) }, NOW),
+    { ok: false, reason: `Daily challenge ${stale} is closed` },
+  );
+  const early = addDays(TODAY, 2);
+  assert.equal(verifyReplay({ ...dailyRun, dailyDate: early, seed: getSeedFromDate(early) }, NOW).ok, false);
+
+  // A day either side is still open (late finishes, and players east of UTC)
+  const yesterday = addDays(TODAY, -1);
+  assert.notDeepEqual(
+    verifyReplay({ ...dailyRun, dailyDate: yesterday, seed: getSeedFromDate(yesterday) }, NOW),
+    { ok: false, reason: `Daily challenge ${yesterday} is closed` },
+  );
+
+  assert.deepEqual(
+    verifyReplay({ ...dailyRun, seed: getSeedFromDate(yesterday) }, NOW),
+    { ok: false, reason: 'Replay seed does not match the daily challenge' },
+  );
+});
+
+test('untimed runs are capped at fifteen minutes', () => {
+  const cap = 120 * 60 * 15;
+  assert.deepEqual(verifyReplay({ ...practiceRun, endTick: cap }, NOW), { ok: false, reason: 'Replay is too long' });
+
+  // An unfinished recording runs on past its last drop
+  const lateDrop: Replay = { ...practiceRun, drops: [...practiceRun.drops, [cap - 100, 160]], endTick: 0 };
+  assert.deepEqual(verifyReplay(lateDrop, NOW), { ok: false, reason: 'Replay is too long' });
+
+  const manyDrops: Replay = { ...practiceRun, drops: Array.from({ length: 5001 }, (_, i) => [i, 160]) };
+  assert.deepEqual(verifyReplay(manyDrops, NOW), { ok: false, reason: 'Replay is too long' });
+});
+
+test('Mochi Rush runs are capped a little past the clock', () => {
+  assert.deepEqual(
+    verifyReplay({ ...rushRun, endTick: RUSH_CLOCK_TICKS + 600 }, NOW),
+    { ok: false, reason: 'Replay is too long' },
+  );
+  assert.equal(verifyReplay({ ...rushRun, endTick: RUSH_CLOCK_TICKS + 599 }, NOW).ok, true);
+});
+
+test('Mochi Rush drops after the clock runs out score nothing', () => {
+  const honest = verifyReplay(rushRun, NOW);
+  const pastClock: Replay = {
+    ...rushRun,
+    drops: [...rushRun.drops, ...Array.from({ length: 20 }, (_, i): [number, number] => [RUSH_CLOCK_TICKS + i * 20, 160])],
+    endTick: RUSH_CLOCK_TICKS + 500,
+  };
+  const verdict = verifyReplay(pastClock, NOW);
+  assert.ok(verdict.ok && honest.ok);
+  assert.equal(verdict.score, honest.score);
+  assert.ok(verdict.ticks <= RUSH_CLOCK_TICKS + 1, 'the run should end with the clock');
+});
+
+test('runs that score nothing are rejected', () => {
+  const verdict = verifyReplay({ ...practiceRun, drops: [], endTick: 0, score: 500 }, NOW);
+  assert.deepEqual(verdict, { ok: false, reason: 'Replay scores no points' });
+});
+
+// --- submitScore ---
+
+test('the recomputed score is kept, not the claimed one', async () => {
+  const table = createMemoryScoreTable();
+  const earned = simulateReplay(practiceRun).score;
+
+  const result = await submitScore(table, submission({ ...practiceRun, score: 999999 }), NOW);
+  assert.deepEqual(result, { accepted: true, score: earned });
+  assert.equal(table.rows.length, 1);
+  assert.equal(table.rows[0].score, earned);
+  assert.equal(table.rows[0].game_mode, 'freeplay');
+  assert.equal(table.rows[0].player_id, hashPlayerId(PLAYER_ID));
+});
+
+test('only a better score replaces a player\'s entry', async () => {
+  const table = createMemoryScoreTable();
+  const shorter = playReplay('practice', 3, 4);
+  const shortScore = simulateReplay(shorter).score;
+  const longScore = simulateReplay(practiceRun).score;
+  assert.ok(shortScore < longScore);
+
+  await submitScore(table, submission(practiceRun), NOW);
+  await submitScore(table, submission(shorter), NOW);
+  assert.equal(table.rows.length, 1);
+  assert.equal(table.rows[0].score, longScore);
+
+  await submitScore(table, submission(rushRun), NOW);
+  await submitScore(table, submission(dailyRun), NOW);
+  assert.deepEqual(table.rows.map(row => [row.game_mode, row.daily_date]), [['freeplay', undefined], ['rush', undefined], ['daily', TODAY]]);
+});
+
+test('a player\'s first run needs a name no one else uses, and later ones keep it', async () => {
+  const table = createMemoryScoreTable([
+    { id: 'alice', name: 'Alice', score: 50, game_mode: 'freeplay', player_id: hashPlayerId('alice-player-00000001') },
+    { id: 'legacy', name: 'OldTimer', score: 50, game_mode: 'freeplay' },
+  ]);
+
+  for (const name of ['alice', 'OLDTIMER']) {
+    assert.deepEqual(await submitScore(table, submission(practiceRun, PLAYER_ID, name), NOW), { accepted: false, reason: 'Taken by another player' });
+  }
+  assert.deepEqual(await submitScore(table, submission(practiceRun, PLAYER_ID, 'Adm1n'), NOW), { accepted: false, reason: 'Invalid player name' });
+  assert.equal(table.rows.length, 2);
+
+  assert.equal((await submitScore(table, submission(practiceRun, PLAYER_ID, '  MochiFan '), NOW)).accepted, true);
+  // A submitted name doesn't rename - that's renamePlayer's job
+  assert.equal((await submitScore(table, submission(rushRun, PLAYER_ID, 'Alice'), NOW)).accepted, true);
+  assert.deepEqual(table.rows.slice(2).map(row => [row.game_mode, row.name]), [['freeplay', 'MochiFan'], ['rush', 'MochiFan']]);
+});
+
+test('unranked modes and archive dailies are turned away', async () => {
+  const table = createMemoryScoreTable();
+  const level = JSON.parse(readFileSync(new URL('../src/levels/01-first-steps.json', import.meta.url), 'utf8')) as PuzzleLevel;
+  const unranked: [Replay, string][] = [
+    [{ ...practiceRun, mode: 'zen' }, 'Zen runs are not ranked'],
+    [{ ...practiceRun, mode: 'puzzle', level: { ...level, id: '01-first-steps' } }, 'Puzzle runs are not ranked'],
+    [{ ...practiceRun, mode: 'online' }, 'Online versus runs are not ranked'],
+    [{ ...dailyRun, archive: true }, 'Archive runs are not ranked'],
+  ];
+
+  for (const [replay, reason] of unranked) {
+    assert.deepEqual(await submitScore(table, submission(replay), NOW), { accepted: false, reason });
+  }
+  assert.equal(table.rows.length, 0);
+});
+
+test('ranked replays can\'t bring their own starting board', async () => {
+  // Zero drops on a forged board full of high tiers would still score
+  const board = { id: 'forged', name: 'Forged', mochis: [8, 8, 9, 9].map((tier, i) => ({ tier, x: 60 + i * 65, y: 380 })), drops: [0], goal: { type: 'score', score: 1 }, stars: [1, 1] } as PuzzleLevel;
+  const table = createMemoryScoreTable();
+
+  for (const run of [practiceRun, rushRun, dailyRun]) {
+    const forged: Replay = { ...run, level: board, drops: [], endTick: 0 };
+    assert.deepEqual(await submitScore(table, submission(forged), NOW), { accepted: false, reason: 'Not a playable replay' });
+    assert.deepEqual(verifyReplay(forged, NOW), { ok: false, reason: 'Replay starts from a preset board' });
+  }
+  assert.equal(table.rows.length, 0);
+});
+
+test('submissions need a player id, a name and a playable replay', async () => {
+  const table = createMemoryScoreTable();
+  assert.deepEqual(await submitScore(table, submission(practiceRun, 'short'), NOW), { accepted: false, reason: 'Invalid player id' });
+  assert.deepEqual(await submitScore(table, submission(practiceRun, PLAYER_ID, ' '), NOW), { accepted: false, reason: 'Invalid player name' });
+  assert.deepEqual(await submitScore(table, { playerId: PLAYER_ID, name: 'MochiFan', replay: { ...practiceRun, version: 1 } }, NOW), { accepted: false, reason: 'Not a playable replay' });
+  assert.deepEqual(await submitScore(table, null, NOW), { accepted: false, reason: 'Invalid player id' });
+  assert.equal(table.rows.length, 0);
+});
+
+// --- The HTTP server ---
+
+test('a busy verifier answers 503 so the game retries', async () => {
+  const table = createMemoryScoreTable();
+  const server = createScoreServer({ table, memory: table, allowedOrigin: '*' });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const post = (path: string, body: string) =>
+    fetch(`${url}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  try {
+    // Two replays running and sixteen waiting fill the verifier; past that
+    // there's no room
+    const burst = await Promise.all(Array.from({ length: 24 }, (_, i) =>
+      post('/submit-score', JSON.stringify(submission(practiceRun, `busy-player-${String(i).padStart(10, '0')}`, `Busy${i}`)))
+    ));
+    const statuses = burst.map(response => response.status);
+    assert.ok(statuses.every(status => status === 200 || status === 503), statuses.join());
+    assert.ok(statuses.filter(status => status === 503).length > 0, statuses.join());
+    assert.ok(statuses.filter(status => status === 200).length >= 18, statuses.join());
+    const busy = burst.find(response => response.status === 503)!;
+    assert.deepEqual(await busy.json(), { accepted: false, reason: 'Too busy to verify runs, try again later' });
+
+    // Room again once those are through
+    const retry = await post('/submit-score', JSON.stringify(submission(practiceRun, 'busy-player-retry00', 'BusyRetry')));
+    assert.equal(retry.status, 200);
+
+    const rejected = await post('/submit-score', JSON.stringify(submission({ ...practiceRun, mode: 'zen' })));
+    assert.equal(rejected.status, 422);
+    const malformed = await post('/submit-score', '{');
+    assert.equal(malformed.status, 400);
+  } finally {
+    await new Promise(resolve => server.close(resolve));
+  }
+});